@@ -1,8 +1,10 @@
-import { describe, expect, test } from 'vitest'
+import { describe, expect, test, vi } from 'vitest'
 import { Channel } from './Channel.js'
 import { expectToBlock } from './_expectToBlock.js'
 import { CannotWriteIntoClosedChannel } from './channel-api.js'
 import { AbortedError } from './AbortablePromise.js'
+import { ManualClock } from './clock.js'
+import { select } from './select.js'
 
 async function makeChannelWithFullBuffer(capacity: number) {
     if (capacity === 0) {
@@ -21,9 +23,9 @@ async function makeChannelWithFullBuffer(capacity: number) {
 test.for([
     -1,
     3.14,
-    Infinity,
+    -Infinity,
     NaN,
-])('If capacity is not an integer >= 0, constructor throws', async c => {
+])('If capacity is not an integer >= 0 or Infinity, constructor throws', async c => {
     expect(() => new Channel(c)).toThrowError(c.toString())
 })
 
@@ -213,6 +215,139 @@ describe('Buffered', () => {
     })
 })
 
+describe('Buffer policies', () => {
+    test.for(['dropping', 'sliding'] as const)(
+        'Capacity must be >= 1 (%s)',
+
+        bufferPolicy => {
+            expect(() => new Channel(0, { bufferPolicy })).toThrowError(bufferPolicy)
+        }
+    )
+
+    test('dropping: writes into full buffer succeed and discard the written value', async () => {
+        const ch = new Channel(2, { bufferPolicy: 'dropping' })
+
+        await ch.write(1)
+        await ch.write(2)
+        await ch.write(3)
+        expect(ch.tryWrite(4)).toBe(true)
+
+        ch.close()
+
+        await expect(ch.read()).resolves.toBe(1)
+        await expect(ch.read()).resolves.toBe(2)
+        await expect(ch.read()).resolves.toBe(undefined)
+    })
+
+    test('sliding: writes into full buffer succeed and evict the oldest value', async () => {
+        const ch = new Channel(2, { bufferPolicy: 'sliding' })
+
+        await ch.write(1)
+        await ch.write(2)
+        await ch.write(3)
+        expect(ch.tryWrite(4)).toBe(true)
+
+        ch.close()
+
+        await expect(ch.read()).resolves.toBe(3)
+        await expect(ch.read()).resolves.toBe(4)
+        await expect(ch.read()).resolves.toBe(undefined)
+    })
+
+    test.for(['dropping', 'sliding'] as const)(
+        'Blocked read() gets the written value directly (%s)',
+
+        async bufferPolicy => {
+            const ch = new Channel(1, { bufferPolicy })
+
+            const r = ch.read()
+            await expectToBlock(r)
+
+            await ch.write(42)
+            await expect(r).resolves.toBe(42)
+        }
+    )
+
+    test.for(['dropping', 'sliding'] as const)(
+        'waitUntilWritable() does not block when the buffer is full (%s)',
+
+        async bufferPolicy => {
+            const ch = new Channel(1, { bufferPolicy })
+
+            await ch.write(1)
+            await ch.waitUntilWritable(undefined)
+
+            expect(ch.writableWaitsCount).toBe(0)
+        }
+    )
+
+    test.for(['dropping', 'sliding'] as const)(
+        'raceWrite() always succeeds (%s)',
+
+        async bufferPolicy => {
+            const ch = new Channel(1, { bufferPolicy })
+
+            await ch.write(1)
+            expect(ch.raceWrite(2).attempt()).toEqual([true, undefined])
+        }
+    )
+})
+
+describe('Unbounded', () => {
+    test('write() never blocks', async () => {
+        const ch = new Channel<number>(Infinity)
+
+        for (let i = 0; i < 100; ++i) {
+            await ch.write(i)
+        }
+
+        await ch.waitUntilWritable(undefined)
+
+        for (let i = 0; i < 100; ++i) {
+            expect(ch.tryRead()).toBe(i)
+        }
+    })
+
+    test('highWaterMark.onReached() is called once the buffer length reaches the mark', async () => {
+        const onReached = vi.fn()
+        const ch = new Channel<number>(Infinity, { highWaterMark: { length: 3, onReached } })
+
+        await ch.write(1)
+        await ch.write(2)
+        expect(onReached).not.toHaveBeenCalled()
+
+        await ch.write(3)
+        expect(onReached).toHaveBeenCalledExactlyOnceWith(3)
+
+        await ch.write(4)
+        expect(onReached).toHaveBeenCalledOnce()
+    })
+
+    test('highWaterMark.onReached() is called again only after the length drops below the mark', async () => {
+        const onReached = vi.fn()
+        const ch = new Channel<number>(Infinity, { highWaterMark: { length: 2, onReached } })
+
+        await ch.write(1)
+        await ch.write(2)
+        await ch.write(3)
+        expect(onReached).toHaveBeenCalledOnce()
+
+        await ch.read()
+        await ch.write(4)
+        expect(onReached).toHaveBeenCalledOnce()
+
+        await ch.read()
+        await ch.read()
+        await ch.write(5)
+        expect(onReached).toHaveBeenCalledTimes(2)
+    })
+
+    test.for([0, 1.5])('highWaterMark.length must be an integer >= 1 (%s)', length => {
+        expect(() => new Channel(Infinity, { highWaterMark: { length, onReached() {} } }))
+            .toThrowError(length.toString())
+    })
+})
+
 const capacities = [0, 5]
 
 describe('All capacities: writes and reads', () => {
@@ -331,6 +466,65 @@ test.for(capacities)('After close(), .closed is true (%s)', c => {
     expect(ch.closed).toBe(true)
 })
 
+describe('All capacities: close with error', () => {
+    test.for(capacities)(
+        'After close(error), blocked and new read()s reject with the error (%s)',
+
+        async c => {
+            const ch = new Channel(c)
+            const error = new Error('Producer failed')
+
+            const r = ch.read()
+            await expectToBlock(r)
+
+            ch.close(error)
+
+            await expect(r).rejects.toBe(error)
+            await expect(ch.read()).rejects.toBe(error)
+            expect(() => ch.tryRead()).toThrowError(error)
+        }
+    )
+
+    test('After close(error), values left in the buffer are read before the error', async () => {
+        const ch = new Channel(3)
+        const error = new Error('Producer failed')
+
+        await ch.write(1)
+        await ch.write(2)
+        ch.close(error)
+
+        await expect(ch.read()).resolves.toBe(1)
+        expect(ch.tryRead()).toBe(2)
+        await expect(ch.read()).rejects.toBe(error)
+    })
+
+    test.for(capacities)(
+        'After close(error), for await loop throws the error (%s)',
+
+        async c => {
+            const ch = new Channel(c)
+            const error = new Error('Producer failed')
+
+            ch.close(error)
+
+            const loop = async () => {
+                for await (const _ of ch) {}
+            }
+
+            await expect(loop()).rejects.toBe(error)
+        }
+    )
+
+    test('close(error) after close() has no effect', async () => {
+        const ch = new Channel(0)
+
+        ch.close()
+        ch.close(new Error('Too late'))
+
+        await expect(ch.read()).resolves.toBe(undefined)
+    })
+})
+
 describe('All capacities: waits', () => {
     test.for(capacities)(
         'If there are multiple blocked waitUntilReadable(), after write(), ' +
@@ -492,6 +686,334 @@ describe('All capacities: waits', () => {
     })
 })
 
+describe('All capacities: cancelling reads and writes', () => {
+    test.for(capacities)(
+        'Blocked read() can be cancelled, and does not consume the next value (%s)',
+
+        async c => {
+            const ch = new Channel(c)
+            const controller = new AbortController()
+
+            const r = ch.read(controller.signal)
+            await expectToBlock(r)
+
+            controller.abort()
+            await expect(r).rejects.toThrowError(AbortedError)
+
+            const w = ch.write(42)
+            await expect(ch.read()).resolves.toBe(42)
+            await w
+        }
+    )
+
+    test.for(capacities)(
+        'Blocked write() can be cancelled, and its value is not written (%s)',
+
+        async c => {
+            const ch = await makeChannelWithFullBuffer(c)
+            const controller = new AbortController()
+
+            const w = ch.write(42, controller.signal)
+            await expectToBlock(w)
+
+            controller.abort()
+            await expect(w).rejects.toThrowError(AbortedError)
+
+            for (let i = 0; i < c; ++i) {
+                expect(ch.tryRead()).toBe(i)
+            }
+
+            expect(ch.tryRead()).toBe(undefined)
+        }
+    )
+
+    test('If signal is already aborted, read() and write() throw without reading or writing', async () => {
+        const ch = new Channel(1)
+        const controller = new AbortController()
+        controller.abort()
+
+        await expect(ch.write(1, controller.signal)).rejects.toThrowError(AbortedError)
+        expect(ch.tryWrite(2)).toBe(true)
+
+        await expect(ch.read(controller.signal)).rejects.toThrowError(AbortedError)
+        expect(ch.tryRead()).toBe(2)
+    })
+})
+
+describe('Peeking', () => {
+    test.for(capacities)('tryPeek() returns the next value without taking it (%s)', async c => {
+        const ch = new Channel<number>(c)
+        expect(ch.tryPeek()).toBe(undefined)
+
+        const w = ch.write(1)
+
+        expect(ch.tryPeek()).toBe(1)
+        expect(ch.tryPeek()).toBe(1)
+        expect(ch.tryRead()).toBe(1)
+        await w
+    })
+
+    test('tryPeek() does not unblock writes', async () => {
+        const ch = new Channel<number>(0)
+        const w = ch.write(1)
+
+        expect(ch.tryPeek()).toBe(1)
+        await expectToBlock(w)
+    })
+
+    test('peek() blocks until there is a value', async () => {
+        const ch = new Channel<number>(1)
+
+        const p = ch.peek()
+        await expectToBlock(p)
+
+        ch.tryWrite(1)
+
+        await expect(p).resolves.toBe(1)
+        expect(ch.tryRead()).toBe(1)
+    })
+
+    test('peek() does not leave concurrent select() blocked', async () => {
+        const ch = new Channel<number>(1)
+
+        const p = ch.peek()
+        const s = select({ value: ch.raceRead() })
+
+        ch.tryWrite(1)
+
+        await expect(p).resolves.toBe(1)
+        await expect(s).resolves.toStrictEqual({ type: 'value', value: 1 })
+        expect(ch.bufferedLength).toBe(0)
+    })
+
+    test('peek() returns undefined once channel is closed, or throws its error', async () => {
+        const ch = new Channel<number>(0)
+        const p = ch.peek()
+
+        ch.close()
+        await expect(p).resolves.toBe(undefined)
+
+        const failed = new Channel<number>(0)
+        const error = new Error('Producer failed')
+        failed.close(error)
+
+        await expect(failed.peek()).rejects.toBe(error)
+        expect(() => failed.tryPeek()).toThrow(error)
+    })
+
+    test('peek() can be cancelled', async () => {
+        const ch = new Channel<number>(0)
+        const controller = new AbortController()
+
+        const p = ch.peek(controller.signal)
+        await expectToBlock(p)
+
+        controller.abort()
+        await expect(p).rejects.toThrowError(AbortedError)
+    })
+})
+
+describe('Reading and writing many values', () => {
+    test('readMany() blocks until there is a value, then takes up to max values', async () => {
+        const ch = new Channel<number>(3)
+
+        const r = ch.readMany(2)
+        await expectToBlock(r)
+
+        // Unblocks the read; the rest are taken synchronously after it
+        ch.tryWrite(1)
+        ch.tryWrite(2)
+        ch.tryWrite(3)
+
+        await expect(r).resolves.toStrictEqual([1, 2])
+        expect(ch.tryRead()).toBe(3)
+    })
+
+    test('readMany() takes values of blocked writes', async () => {
+        const ch = new Channel<number>(0)
+
+        const w1 = ch.write(1)
+        const w2 = ch.write(2)
+
+        await expect(ch.readMany(10)).resolves.toStrictEqual([1, 2])
+        await w1
+        await w2
+    })
+
+    test('readMany() returns empty array once channel is closed', async () => {
+        const ch = new Channel<number>(1)
+        ch.close()
+
+        await expect(ch.readMany(10)).resolves.toStrictEqual([])
+    })
+
+    test('readMany() throws on invalid max', async () => {
+        const ch = new Channel<number>(1)
+
+        await expect(ch.readMany(0)).rejects.toThrow()
+        await expect(ch.readMany(1.5)).rejects.toThrow()
+    })
+
+    test('drain() takes all available values without blocking', async () => {
+        const ch = new Channel<number>(2)
+
+        expect(ch.drain()).toStrictEqual([])
+
+        await ch.write(1)
+        await ch.write(2)
+        const w = ch.write(3)
+
+        expect(ch.drain()).toStrictEqual([1, 2, 3])
+        await w
+    })
+
+    test('drain() returns the values left if channel is closed with an error, then throws', async () => {
+        const ch = new Channel<number>(2)
+        const error = new Error('Producer failed')
+
+        await ch.write(1)
+        ch.close(error)
+
+        expect(ch.drain()).toStrictEqual([1])
+        expect(() => ch.drain()).toThrow(error)
+    })
+
+    test('writeMany() writes values that fit synchronously, and blocks for the rest', async () => {
+        const ch = new Channel<number>(2)
+
+        const w = ch.writeMany([1, 2, 3, 4])
+        await expectToBlock(w)
+
+        expect(ch.drain()).toStrictEqual([1, 2, 3])
+        await w
+
+        expect(ch.drain()).toStrictEqual([4])
+    })
+
+    test('If writeMany() is cancelled, values before the blocked one remain written', async () => {
+        const ch = new Channel<number>(1)
+        const controller = new AbortController()
+
+        const w = ch.writeMany([1, 2, 3], controller.signal)
+        await expectToBlock(w)
+
+        controller.abort()
+        await expect(w).rejects.toThrowError(AbortedError)
+
+        expect(ch.drain()).toStrictEqual([1])
+    })
+})
+
+describe('Metrics', () => {
+    test('Counts buffered, blocked, written and read values', async () => {
+        const ch = new Channel<number>(1)
+
+        await ch.write(1)
+        const w = ch.write(2)
+
+        expect(ch.snapshot()).toMatchObject({
+            bufferedLength: 1,
+            blockedReadsCount: 0,
+            blockedWritesCount: 1,
+            totalWritten: 1,
+            totalRead: 0,
+        })
+
+        expect(await ch.read()).toBe(1)
+        await w
+
+        // Value of the blocked write was moved into the buffer
+        expect(ch.snapshot()).toMatchObject({
+            bufferedLength: 1,
+            blockedWritesCount: 0,
+            totalWritten: 2,
+            totalRead: 1,
+        })
+
+        ch.tryRead()
+        const r = ch.read()
+
+        expect(ch.blockedReadsCount).toBe(1)
+
+        await ch.write(3)
+        await r
+
+        expect(ch.totalWritten).toBe(3)
+        expect(ch.totalRead).toBe(3)
+        expect(ch.blockedReadsCount).toBe(0)
+    })
+
+    test.for(['dropping', 'sliding'] as const)('Counts dropped values (%s)', bufferPolicy => {
+        const ch = new Channel<number>(1, { bufferPolicy })
+
+        ch.tryWrite(1)
+        ch.tryWrite(2)
+        ch.tryWrite(3)
+
+        expect(ch.totalWritten).toBe(3)
+        expect(ch.totalDropped).toBe(2)
+        expect(ch.bufferedLength).toBe(1)
+    })
+
+    test('Measures time writes spend blocked with the clock', async () => {
+        const clock = new ManualClock()
+        const ch = new Channel<number>(0, { clock })
+        const controller = new AbortController()
+
+        const w1 = ch.write(1)
+        const w2 = ch.write(2, controller.signal)
+
+        await clock.advance(100)
+
+        controller.abort()
+        await expect(w2).rejects.toThrowError(AbortedError)
+
+        await clock.advance(50)
+
+        expect(await ch.read()).toBe(1)
+        await w1
+
+        expect(ch.totalWriteBlockedMs).toBe(100 + 150)
+    })
+
+    test('statsHook is called with snapshot after each change', async () => {
+        const statsHook = vi.fn()
+        const ch = new Channel<number>(2, { statsHook })
+
+        ch.tryWrite(1)
+        expect(statsHook).toHaveBeenLastCalledWith(ch.snapshot())
+        expect(statsHook.mock.lastCall?.[0]).toMatchObject({ bufferedLength: 1, totalWritten: 1 })
+
+        ch.tryRead()
+        expect(statsHook.mock.lastCall?.[0]).toMatchObject({ bufferedLength: 0, totalRead: 1 })
+
+        ch.close()
+        expect(statsHook.mock.lastCall?.[0]).toMatchObject({ closed: true })
+
+        expect(statsHook).toHaveBeenCalledTimes(3)
+    })
+
+    test('statsHook is called once write() or read() blocks or is cancelled', async () => {
+        const statsHook = vi.fn()
+        const ch = new Channel<number>(0, { statsHook })
+        const controller = new AbortController()
+
+        const w = ch.write(1, controller.signal)
+        expect(statsHook.mock.lastCall?.[0]).toMatchObject({ blockedWritesCount: 1 })
+
+        controller.abort()
+        await expect(w).rejects.toThrowError(AbortedError)
+        expect(statsHook.mock.lastCall?.[0]).toMatchObject({ blockedWritesCount: 0 })
+
+        const r = ch.read()
+        expect(statsHook.mock.lastCall?.[0]).toMatchObject({ blockedReadsCount: 1 })
+
+        ch.tryWrite(2)
+        await expect(r).resolves.toBe(2)
+        expect(statsHook.mock.lastCall?.[0]).toMatchObject({ blockedReadsCount: 0, totalRead: 1 })
+    })
+})
+
 test('Writing `undefined` into channel is not allowed', async () => {
     // `undefined` is returned by `read()` when channel is closed. If we
     // allowed writing `undefined` as a regular value, users would not be
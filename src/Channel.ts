@@ -1,12 +1,17 @@
 import { FifoRingBuffer } from './_FifoRingBuffer.js'
-import { AbortablePromise } from './AbortablePromise.js'
+import { AbortablePromise, AbortedError } from './AbortablePromise.js'
 import { asyncIteratorForChannel } from './asyncIteratorForChannel.js'
 import { CannotWriteIntoClosedChannel, type NotUndefined, type ReadableChannel, type SelectablePromise, type WritableChannel } from './channel-api.js'
+import { realClock, type Clock } from './clock.js'
+import { setOperationTarget } from './_operationTarget.js'
 
 /**
  * Implementation of buffered and unbuffered channel, depending on the constructor 
  * parameter
  * 
+ * Buffered channels can be created with a non-blocking {@link BufferPolicy}, 
+ * in which case writes never block
+ * 
  * For details, see the methods of {@link ReadableChannel} and {@link WritableChannel}
  * 
  * Note that `T extends NotUndefined`. See {@link NotUndefined} docs for the
@@ -17,20 +22,65 @@ export class Channel<T extends NotUndefined> implements ReadableChannel<T>, Writ
 
     // TODO?: those could be queues
     private blockedWrites: BlockedWrite<T>[] = []
-    private blockedReads: ResolveReadFn<T>[] = []
+    private blockedReads: BlockedRead<T>[] = []
 
     private readonly readableWaits = new Set<() => void>()
     private readonly writableWaits = new Set<() => void>()
 
     private _closed = false
+    private closeError: { error: unknown } | null = null
+
+    /**
+     * What happens when a value is written into the channel with a full 
+     * buffer. See {@link BufferPolicy}
+     */
+    readonly bufferPolicy: BufferPolicy
+
+    private readonly highWaterMark: HighWaterMark | undefined
+    private isAboveHighWaterMark = false
+
+    private readonly statsHook: ((snapshot: ChannelSnapshot) => void) | undefined
+    private readonly clock: Clock
+
+    private _totalWritten = 0
+    private _totalRead = 0
+    private _totalDropped = 0
+    private _totalWriteBlockedMs = 0
 
     /**
-     * @param capacity Capacity of the channel buffer. Integer >= 0. If 0,
-     * the channel is *unbuffered*, meaning that each {@link WritableChannel.write}
+     * @param capacity Capacity of the channel buffer. Integer >= 0 or `Infinity`. 
+     * If 0, the channel is *unbuffered*, meaning that each {@link WritableChannel.write}
      * blocks until {@link ReadableChannel.read} and vice versa
+     * 
+     * If `Infinity`, the channel is *unbounded*: the buffer grows as needed, 
+     * and {@link WritableChannel.write} never blocks. There is no backpressure, 
+     * so a fast writer can make the buffer grow without limit. Consider
+     * using {@link ChannelOptions.highWaterMark} to detect that
+     * 
+     * Must be >= 1 if {@link ChannelOptions.bufferPolicy} is not `'blocking'`
      */
-    constructor(readonly capacity: number) {
+    constructor(readonly capacity: number, options: ChannelOptions = {}) {
         this.buffer = new FifoRingBuffer(capacity)
+        this.bufferPolicy = options.bufferPolicy ?? 'blocking'
+        this.highWaterMark = options.highWaterMark
+        this.statsHook = options.statsHook
+        this.clock = options.clock ?? realClock
+
+        if (this.bufferPolicy !== 'blocking' && capacity === 0) {
+            throw new Error(
+                `capacity must be >= 1 for bufferPolicy '${this.bufferPolicy}'`
+            )
+        }
+
+        if (this.highWaterMark !== undefined) {
+            const { length } = this.highWaterMark
+
+            if (!Number.isInteger(length) || length < 1) {
+                throw new Error(
+                    `highWaterMark.length must be an integer >= 1. Got: ${length}`
+                )
+            }
+        }
     }
 
     get closed() {
@@ -45,23 +95,130 @@ export class Channel<T extends NotUndefined> implements ReadableChannel<T>, Writ
         return this.writableWaits.size
     }
 
+    /**
+     * Number of values in the buffer
+     */
+    get bufferedLength() {
+        return this.buffer.length
+    }
+
+    /**
+     * Number of currently blocked {@link ReadableChannel.read} calls
+     */
+    get blockedReadsCount() {
+        return this.blockedReads.length
+    }
+
+    /**
+     * Number of currently blocked {@link WritableChannel.write} calls
+     */
+    get blockedWritesCount() {
+        return this.blockedWrites.length
+    }
+
+    /**
+     * Number of values written into the channel so far, including the values
+     * that were dropped (see {@link Channel.totalDropped})
+     */
+    get totalWritten() {
+        return this._totalWritten
+    }
+
+    /**
+     * Number of values read from the channel so far
+     */
+    get totalRead() {
+        return this._totalRead
+    }
+
+    /**
+     * Number of values discarded due to non-blocking {@link BufferPolicy}
+     * so far
+     */
+    get totalDropped() {
+        return this._totalDropped
+    }
+
+    /**
+     * Total time that {@link WritableChannel.write} calls have spent blocked,
+     * in milliseconds, as measured by {@link ChannelOptions.clock}. Summed over
+     * all calls, so concurrent blocked calls add up. Includes calls that
+     * were cancelled or failed
+     */
+    get totalWriteBlockedMs() {
+        return this._totalWriteBlockedMs
+    }
+
+    /**
+     * Returns the current state and metrics of the channel as a plain object
+     */
+    snapshot(): ChannelSnapshot {
+        return {
+            capacity: this.capacity,
+            bufferPolicy: this.bufferPolicy,
+            closed: this._closed,
+            bufferedLength: this.bufferedLength,
+            blockedReadsCount: this.blockedReadsCount,
+            blockedWritesCount: this.blockedWritesCount,
+            readableWaitsCount: this.readableWaitsCount,
+            writableWaitsCount: this.writableWaitsCount,
+            totalWritten: this._totalWritten,
+            totalRead: this._totalRead,
+            totalDropped: this._totalDropped,
+            totalWriteBlockedMs: this._totalWriteBlockedMs,
+        }
+    }
+
     [Symbol.asyncIterator]() {
         return asyncIteratorForChannel(this)
     }
 
-    async write(value: T): Promise<void> {
+    async write(value: T, signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) {
+            throw new AbortedError()
+        }
+
         const didWrite = this.tryWrite(value)
 
         if (didWrite) {
             return
         }
 
-        return new Promise((resolve, reject) => {
-            this.blockedWrites.push({ value, resolve, reject })
-        })
+        const blockedAt = this.clock.now()
+
+        try {
+            await new AbortablePromise<void>((resolve, reject) => {
+                const write = { value, resolve, reject }
+                this.blockedWrites.push(write)
+                this.reportStats()
+
+                return () => {
+                    removeItem(this.blockedWrites, write)
+                    this.reportStats()
+                }
+            }, signal)
+        }
+        finally {
+            this._totalWriteBlockedMs += this.clock.now() - blockedAt
+        }
     }
 
     tryWrite(value: T): boolean {
+        const didWrite = this.tryWriteUncounted(value)
+
+        if (didWrite) {
+            ++this._totalWritten
+            this.reportStats()
+        }
+
+        return didWrite
+    }
+
+    /**
+     * {@link Channel.tryWrite} without updating {@link Channel.totalWritten} and reporting
+     * stats. Updates other counters
+     */
+    private tryWriteUncounted(value: T): boolean {
        if (value === undefined) {
             throw new Error(`Writing \`undefined\` into channel is not allowed`)
         }
@@ -73,16 +230,62 @@ export class Channel<T extends NotUndefined> implements ReadableChannel<T>, Writ
         const readToResolve = this.blockedReads.shift()
 
         if (readToResolve !== undefined) {
-            readToResolve(value)
+            readToResolve.resolve(value)
+            ++this._totalRead
+
             return true
         }
 
         this.resolveSomeReadableWait()
 
-        return this.buffer.write(value)
+        if (this.buffer.write(value)) {
+            this.checkHighWaterMark()
+            return true
+        }
+
+        switch (this.bufferPolicy) {
+            case 'blocking':
+                return false
+
+            case 'dropping':
+                ++this._totalDropped
+                return true
+
+            case 'sliding':
+                // Evict the oldest value to make space for the new one
+                this.buffer.read()
+                this.buffer.write(value)
+                ++this._totalDropped
+
+                return true
+        }
+    }
+
+    async writeMany(values: readonly T[], signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) {
+            throw new AbortedError()
+        }
+
+        let i = 0
+
+        while (i < values.length) {
+            // Write synchronously while there is space
+            while (i < values.length && this.tryWrite(values[i]!)) {
+                ++i
+            }
+
+            if (i < values.length) {
+                await this.write(values[i]!, signal)
+                ++i
+            }
+        }
     }
 
-    async read(): Promise<T | undefined> {
+    async read(signal?: AbortSignal): Promise<T | undefined> {
+        if (signal?.aborted) {
+            throw new AbortedError()
+        }
+
         const result = this.tryRead()
 
         if (result !== undefined || this._closed) {
@@ -91,12 +294,109 @@ export class Channel<T extends NotUndefined> implements ReadableChannel<T>, Writ
 
         this.resolveSomeWritableWait()
 
-        return new Promise(resolve => {
-            this.blockedReads.push(resolve)
-        })
+        return new AbortablePromise((resolve, reject) => {
+            const read = { resolve, reject }
+            this.blockedReads.push(read)
+            this.reportStats()
+
+            return () => {
+                removeItem(this.blockedReads, read)
+                this.reportStats()
+            }
+        }, signal)
+    }
+
+    async peek(signal?: AbortSignal): Promise<T | undefined> {
+        while (true) {
+            await this.waitUntilReadable(undefined, signal)
+
+            const value = this.tryPeek()
+
+            if (value !== undefined) {
+                // The wait may have taken the only wakeup given by the write.
+                // The value is not taken here, so pass the wakeup on to
+                // another waiter (e.g. `select()` with `raceRead()`)
+                this.resolveSomeReadableWait()
+                return value
+            }
+
+            if (this._closed) {
+                return undefined
+            }
+
+            // Otherwise, the value was taken by another reader after the 
+            // wait has resolved
+        }
+    }
+
+    tryPeek(): T | undefined {
+        // See comments in `tryRead()` on where the next value is
+        const value = this.capacity === 0
+            ? this.blockedWrites[0]?.value
+            : this.buffer.peek()
+
+        if (value === undefined) {
+            this.throwIfClosedWithError()
+        }
+
+        return value
+    }
+
+    async readMany(max: number, signal?: AbortSignal): Promise<T[]> {
+        if (!Number.isInteger(max) || max < 1) {
+            throw new Error(`max must be an integer >= 1. Got: ${max}`)
+        }
+
+        const first = await this.read(signal)
+
+        if (first === undefined) {
+            return []
+        }
+
+        return [first, ...this.takeValues(max - 1)]
+    }
+
+    drain(): T[] {
+        const values = this.takeValues(Infinity)
+
+        if (values.length === 0) {
+            this.throwIfClosedWithError()
+        }
+
+        return values
+    }
+
+    /**
+     * Reads up to `max` values that are available right away. Unlike 
+     * calling {@link tryRead} in a loop, does not throw if the channel was
+     * closed with an error, so the values are not lost
+     */
+    private takeValues(max: number): T[] {
+        const values: T[] = []
+
+        while (values.length < max && this.hasValueToRead()) {
+            values.push(this.tryRead()!)
+        }
+
+        return values
     }
 
     tryRead(): T | undefined {
+        const value = this.tryReadUncounted()
+
+        if (value !== undefined) {
+            ++this._totalRead
+            this.reportStats()
+        }
+
+        return value
+    }
+
+    /**
+     * {@link Channel.tryRead} without updating {@link Channel.totalRead} and reporting
+     * stats. Updates other counters
+     */
+    private tryReadUncounted(): T | undefined {
         // In unbuffered channel, buffer is always empty and we should read
         // value from the first blocked write
         // 
@@ -108,16 +408,20 @@ export class Channel<T extends NotUndefined> implements ReadableChannel<T>, Writ
             const write = this.blockedWrites.shift()
 
             if (write === undefined) {
+                this.throwIfClosedWithError()
                 return undefined
             }
 
             write.resolve()
+            ++this._totalWritten
+
             return write.value
         }
 
         const value = this.buffer.read()
 
         if (value === undefined) {
+            this.throwIfClosedWithError()
             return undefined
         }
 
@@ -128,6 +432,7 @@ export class Channel<T extends NotUndefined> implements ReadableChannel<T>, Writ
             // writes. If one writable wait if there are any
 
             this.resolveSomeWritableWait()
+            this.checkHighWaterMark()
         }
         else {
             // `write()` always returns `true` here, as we've just done 
@@ -135,6 +440,7 @@ export class Channel<T extends NotUndefined> implements ReadableChannel<T>, Writ
             this.buffer.write(write.value)
     
             write.resolve()
+            ++this._totalWritten
         }
 
         return value
@@ -147,7 +453,7 @@ export class Channel<T extends NotUndefined> implements ReadableChannel<T>, Writ
                 return null
             }
 
-            if (this.buffer.length > 0 || this.blockedWrites.length > 0) {
+            if (this.hasValueToRead()) {
                 resolve(value)
                 return null
             }
@@ -168,7 +474,7 @@ export class Channel<T extends NotUndefined> implements ReadableChannel<T>, Writ
                 return null
             }
 
-            if (this.buffer.length < this.capacity || this.blockedReads.length > 0) {
+            if (this.hasSpaceToWrite()) {
                 resolve(value)
                 return null
             }
@@ -182,26 +488,55 @@ export class Channel<T extends NotUndefined> implements ReadableChannel<T>, Writ
         }, signal)
     }
 
-    close() {
+    close(error?: unknown) {
         if (this._closed) {
             return
         }
 
         this._closed = true
 
-        this.resolveAllReadsWithUndefined()
+        if (error !== undefined) {
+            this.closeError = { error }
+        }
+
+        this.settleAllReads()
         this.rejectAllWrites()
         this.resolveAllWaits()
+
+        this.reportStats()
     }
 
-    private resolveAllReadsWithUndefined() {
-        for (const resolve of this.blockedReads) {
-            resolve(undefined)
+    private reportStats() {
+        if (this.statsHook !== undefined) {
+            this.statsHook(this.snapshot())
+        }
+    }
+
+    private settleAllReads() {
+        // Reads are blocked only when there are no values left, so they
+        // can be settled right away
+
+        for (const read of this.blockedReads) {
+            if (this.closeError === null) {
+                read.resolve(undefined)
+            }
+            else {
+                read.reject(this.closeError.error)
+            }
         }
 
         this.blockedReads = []
     }
 
+    /**
+     * Called when a read finds no values to consume
+     */
+    private throwIfClosedWithError() {
+        if (this.closeError !== null) {
+            throw this.closeError.error
+        }
+    }
+
     private rejectAllWrites() {
         const error = new CannotWriteIntoClosedChannel()
 
@@ -244,8 +579,29 @@ export class Channel<T extends NotUndefined> implements ReadableChannel<T>, Writ
         }
     }
 
+    /**
+     * Calls {@link HighWaterMark.onReached} once the buffer length reaches
+     * the mark. Calls it again only after the length drops below the mark 
+     * and reaches it again
+     */
+    private checkHighWaterMark() {
+        if (this.highWaterMark === undefined) {
+            return
+        }
+
+        const isAbove = this.buffer.length >= this.highWaterMark.length
+
+        if (isAbove && !this.isAboveHighWaterMark) {
+            this.isAboveHighWaterMark = true
+            this.highWaterMark.onReached(this.buffer.length)
+            return
+        }
+
+        this.isAboveHighWaterMark = isAbove
+    }
+
     raceRead(): SelectablePromise<T | undefined> {
-        return {
+        return setOperationTarget({
             wait: (value, signal) => {
                 return this.waitUntilReadable(value, signal)
             },
@@ -259,11 +615,26 @@ export class Channel<T extends NotUndefined> implements ReadableChannel<T>, Writ
 
                 return [false]
             },
-        }
+
+            canAttempt: () => {
+                if (this.hasValueToRead()) {
+                    return true
+                }
+
+                this.throwIfClosedWithError()
+                return this._closed
+            },
+
+            passWakeup: () => {
+                if (this.hasValueToRead()) {
+                    this.resolveSomeReadableWait()
+                }
+            },
+        }, this)
     }
 
     raceWrite(value: T): SelectablePromise<void> {
-        return {
+        return setOperationTarget({
             wait: (value, signal) => {
                 return this.waitUntilWritable(value, signal)
             },
@@ -272,8 +643,131 @@ export class Channel<T extends NotUndefined> implements ReadableChannel<T>, Writ
                 const didWrite = this.tryWrite(value)
                 return didWrite ? [true, undefined] : [false]
             },
-        }
+
+            canAttempt: () => {
+                if (this._closed) {
+                    throw new CannotWriteIntoClosedChannel()
+                }
+
+                return this.hasSpaceToWrite()
+            },
+
+            passWakeup: () => {
+                // Once closed, all waits are resolved anyway
+                if (!this._closed && this.hasSpaceToWrite()) {
+                    this.resolveSomeWritableWait()
+                }
+            },
+        }, this)
     }
+
+    /**
+     * Whether {@link tryRead} would return a value
+     */
+    private hasValueToRead(): boolean {
+        return this.buffer.length > 0 || this.blockedWrites.length > 0
+    }
+
+    /**
+     * Whether {@link tryWrite} would return `true`, assuming the channel is
+     * not closed
+     */
+    private hasSpaceToWrite(): boolean {
+        return (
+            this.bufferPolicy !== 'blocking' ||
+            this.buffer.length < this.capacity || 
+            this.blockedReads.length > 0
+        )
+    }
+}
+
+/**
+ * What happens when a value is written into a channel whose buffer is full:
+ * 
+ * - `'blocking'` - the write blocks until there is free space in the buffer.
+ * This gives backpressure
+ * 
+ * - `'dropping'` - the write succeeds immediately, and the written value is 
+ * discarded. The buffer keeps the oldest values
+ * 
+ * - `'sliding'` - the write succeeds immediately, and the oldest value in
+ * the buffer is discarded to make space for the written one. The buffer keeps 
+ * the newest values
+ * 
+ * With `'dropping'` and `'sliding'` policies, writes never block, and 
+ * {@link WritableChannel.waitUntilWritable} always resolves immediately
+ * 
+ * Same as `dropping-buffer` and `sliding-buffer` in Clojure's `core.async`
+ */
+export type BufferPolicy = 'blocking' | 'dropping' | 'sliding'
+
+export interface ChannelOptions {
+    /**
+     * Defaults to `'blocking'`. See {@link BufferPolicy}
+     */
+    bufferPolicy?: BufferPolicy
+
+    /**
+     * Get notified when the number of values in the buffer grows too large.
+     * Useful with unbounded channels (`capacity` of `Infinity`) to detect
+     * runaway growth
+     */
+    highWaterMark?: HighWaterMark
+
+    /**
+     * Called synchronously with {@link Channel.snapshot} after each value is
+     * written, read or dropped, after a {@link WritableChannel.write} or 
+     * {@link ReadableChannel.read} starts blocking or is cancelled, and once 
+     * the channel closes. Useful to export metrics of the channel (e.g. its 
+     * saturation)
+     * 
+     * Should not throw: the exception would be thrown from the operation 
+     * that has already completed
+     */
+    statsHook?: (snapshot: ChannelSnapshot) => void
+
+    /**
+     * Clock used to measure {@link Channel.totalWriteBlockedMs}. Defaults 
+     * to {@link realClock}
+     */
+    clock?: Clock
+}
+
+/**
+ * State and metrics of a channel, returned by {@link Channel.snapshot}. See
+ * the getters of {@link Channel} for the meaning of each field
+ */
+export interface ChannelSnapshot {
+    capacity: number
+    bufferPolicy: BufferPolicy
+    closed: boolean
+    bufferedLength: number
+    blockedReadsCount: number
+    blockedWritesCount: number
+    readableWaitsCount: number
+    writableWaitsCount: number
+    totalWritten: number
+    totalRead: number
+    totalDropped: number
+    totalWriteBlockedMs: number
+}
+
+export interface HighWaterMark {
+    /**
+     * Number of buffered values at which {@link HighWaterMark.onReached} 
+     * is called. Integer >= 1
+     */
+    length: number
+
+    /**
+     * Called synchronously from the write that made the buffer length 
+     * reach {@link HighWaterMark.length}. Not called again until the
+     * length drops below the mark (values are read) and reaches it again
+     * 
+     * Should not throw: the exception would be thrown from the write, even
+     * though the value was written
+     */
+    onReached: (bufferedLength: number) => void
 }
 
 interface BlockedWrite<T> {
@@ -282,4 +776,15 @@ interface BlockedWrite<T> {
     reject: (reason: unknown) => void
 }
 
-type ResolveReadFn<T> = (result: T | undefined) => void
+interface BlockedRead<T> {
+    resolve: (result: T | undefined) => void
+    reject: (reason: unknown) => void
+}
+
+function removeItem<T>(array: T[], item: T) {
+    const index = array.indexOf(item)
+
+    if (index !== -1) {
+        array.splice(index, 1)
+    }
+}
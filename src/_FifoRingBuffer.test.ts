@@ -42,6 +42,21 @@ test('read() on empty buffer returns undefined', () => {
     expect(buffer.read()).toBe(undefined)
 })
 
+test('peek() returns the front value without removing it', () => {
+    const buffer = new FifoRingBuffer(2)
+    expect(buffer.peek()).toBe(undefined)
+
+    buffer.write(1)
+    buffer.write(2)
+
+    expect(buffer.peek()).toBe(1)
+    expect(buffer.peek()).toBe(1)
+    expect(buffer.length).toBe(2)
+
+    expect(buffer.read()).toBe(1)
+    expect(buffer.peek()).toBe(2)
+})
+
 test('Intermixed reads and writes work as expected', () => {
     const buffer = new FifoRingBuffer(3)
 
@@ -77,3 +92,66 @@ test(
         }
     }
 )
+
+test('When capacity=Infinity, write() always returns true, and values keep FIFO order', () => {
+    const buffer = new FifoRingBuffer(Infinity)
+
+    // Interleave reads so the values wrap around the end of the underlying
+    // array before it grows
+    for (let value = 0; value < 10; ++value) {
+        expect(buffer.write(value)).toBe(true)
+    }
+
+    for (let expected = 0; expected < 5; ++expected) {
+        expect(buffer.read()).toBe(expected)
+    }
+
+    for (let value = 10; value < 100; ++value) {
+        expect(buffer.write(value)).toBe(true)
+    }
+
+    expect(buffer.length).toBe(95)
+
+    for (let expected = 5; expected < 100; ++expected) {
+        expect(buffer.read()).toBe(expected)
+    }
+
+    expect(buffer.read()).toBe(undefined)
+})
+
+test('read() clears the slot of the read value, so it can be garbage-collected', () => {
+    const buffer = new FifoRingBuffer<object>(3)
+    const values = [{}, {}, {}]
+
+    for (const value of values) {
+        buffer.write(value)
+    }
+
+    buffer.read()
+    buffer.read()
+
+    // Private field is accessed to check that no references are kept
+    expect(buffer['buffer']).toStrictEqual([undefined, undefined, values[2]])
+})
+
+test('When capacity=Infinity, the grown buffer shrinks once it becomes empty', () => {
+    const buffer = new FifoRingBuffer(Infinity)
+
+    for (let value = 0; value < 100; ++value) {
+        buffer.write(value)
+    }
+
+    for (let expected = 0; expected < 100; ++expected) {
+        expect(buffer.read()).toBe(expected)
+    }
+
+    expect(buffer['buffer'].length).toBeLessThan(100)
+
+    for (let value = 0; value < 20; ++value) {
+        expect(buffer.write(value)).toBe(true)
+    }
+
+    for (let expected = 0; expected < 20; ++expected) {
+        expect(buffer.read()).toBe(expected)
+    }
+})
@@ -2,20 +2,32 @@ import type { NotUndefined } from './channel-api.js'
 
 /**
  * FIFO ring buffer of fixed capacity, with O(1) write() and read()
+ * 
+ * If capacity is `Infinity`, the buffer is never full: it starts small and
+ * doubles its size each time it runs out of space. write() is O(1) amortized
+ * in such case. Once the buffer becomes empty, it shrinks back
+ *
+ * Slots of read values are cleared, so the buffer does not keep references
+ * to them
  */
 export class FifoRingBuffer<T extends NotUndefined> {
-    private readonly buffer: T[]
+    private buffer: (T | undefined)[]
     
     private readPointer: number | null
     private writePointer: number | null
     private _length = 0
 
     constructor(readonly capacity: number) {
-        if (!Number.isInteger(capacity) || capacity < 0) {
-            throw new Error(`capacity must be an integer >= 0. Got: ${capacity}`)
+        if (capacity !== Infinity && (!Number.isInteger(capacity) || capacity < 0)) {
+            throw new Error(
+                `capacity must be an integer >= 0 or Infinity. Got: ${capacity}`
+            )
         }
 
-        this.buffer = Array(capacity)
+        this.buffer = Array(
+            capacity === Infinity ? INITIAL_GROWABLE_SIZE : capacity
+        )
+
         this.readPointer = null
         this.writePointer = (capacity === 0) ? null : 0
         this._length = 0
@@ -31,17 +43,23 @@ export class FifoRingBuffer<T extends NotUndefined> {
      * is full
      */
     write(value: T): boolean {
-        if (this.writePointer === null) {
-            return false
+        let writePointer = this.writePointer
+
+        if (writePointer === null) {
+            if (this.capacity !== Infinity) {
+                return false
+            }
+
+            writePointer = this.grow()
         }
 
-        this.buffer[this.writePointer] = value
+        this.buffer[writePointer] = value
         
         if (this.readPointer === null) {
-            this.readPointer = this.writePointer
+            this.readPointer = writePointer
         }
 
-        const next = (this.writePointer + 1) % this.capacity
+        const next = (writePointer + 1) % this.buffer.length
 
         this.writePointer = (next === this.readPointer)
             ? null
@@ -62,12 +80,13 @@ export class FifoRingBuffer<T extends NotUndefined> {
         }
 
         const value = this.buffer[this.readPointer]!
+        this.buffer[this.readPointer] = undefined
 
         if (this.writePointer === null) {
             this.writePointer = this.readPointer
         }
 
-        const next = (this.readPointer + 1) % this.capacity
+        const next = (this.readPointer + 1) % this.buffer.length
 
         this.readPointer = (next === this.writePointer)
             ? null
@@ -75,6 +94,51 @@ export class FifoRingBuffer<T extends NotUndefined> {
 
         --this._length
 
+        if (this._length === 0 && this.buffer.length > INITIAL_GROWABLE_SIZE) {
+            this.shrink()
+        }
+
         return value
     }
+
+    /**
+     * Returns value from the front of the buffer without removing it. Returns
+     * `undefined` if the buffer is empty
+     */
+    peek(): T | undefined {
+        if (this.readPointer === null) {
+            return undefined
+        }
+
+        return this.buffer[this.readPointer]
+    }
+
+    /**
+     * Doubles the size of the full buffer, moving values to the start of the
+     * new array in FIFO order. Returns the new write pointer
+     */
+    private grow(): number {
+        const values: (T | undefined)[] = Array(this.buffer.length * 2)
+
+        for (let i = 0; i < this._length; ++i) {
+            values[i] = this.buffer[(this.readPointer! + i) % this.buffer.length]
+        }
+
+        this.buffer = values
+        this.readPointer = 0
+        this.writePointer = this._length
+
+        return this.writePointer
+    }
+
+    /**
+     * Replaces the grown empty buffer with one of the initial size
+     */
+    private shrink() {
+        this.buffer = Array(INITIAL_GROWABLE_SIZE)
+        this.readPointer = null
+        this.writePointer = 0
+    }
 }
+
+const INITIAL_GROWABLE_SIZE = 16
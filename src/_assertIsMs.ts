@@ -0,0 +1,9 @@
+/**
+ * Throws if `ms` is not a valid duration: `NaN` or negative. `Infinity`
+ * is allowed. `name` is the name of the parameter, used in the error message
+ */
+export function assertIsMs(ms: number, name = 'ms'): void {
+    if (Number.isNaN(ms) || ms < 0) {
+        throw new Error(`${name} must be >= 0. Got: ${ms}`)
+    }
+}
@@ -0,0 +1,24 @@
+import { expect } from 'vitest'
+
+/**
+ * Expects `nextResult` (result of `iterator.next()`) to yield `value`.
+ * Used by tests
+ */
+export async function expectNextValue<T>(
+    nextResult: Promise<IteratorResult<T>>,
+    value: T
+): Promise<void> {
+    const result = await nextResult
+
+    expect(result.done ?? false).toBe(false)
+    expect(result.value).toStrictEqual(value)
+}
+
+/**
+ * Expects `nextResult` (result of `iterator.next()`) to signal the end of
+ * the iterator. Used by tests
+ */
+export async function expectToEnd<T>(nextResult: Promise<IteratorResult<T>>): Promise<void> {
+    const result = await nextResult
+    expect(result.done).toBe(true)
+}
@@ -0,0 +1,25 @@
+import { realClock, type Clock } from './clock.js'
+
+/**
+ * Returns `[signal, clearFn]`. The signal aborts once `ms` elapse. `clearFn`
+ * cancels the timer, so the signal never aborts. Call it once the signal
+ * is no longer needed, to not keep the timer running
+ *
+ * If `ms` is `Infinity`, the signal never aborts and no timer is started
+ *
+ * Unlike `AbortSignal.timeout()`, works in older browsers and with fake 
+ * timers in tests
+ */
+export function makeTimeoutSignal(
+    ms: number,
+    clock: Clock = realClock,
+): [AbortSignal, () => void] {
+    const controller = new AbortController()
+
+    if (ms === Infinity) {
+        return [controller.signal, () => {}]
+    }
+
+    const handle = clock.setTimeout(() => controller.abort(), ms)
+    return [controller.signal, () => clock.clearTimeout(handle)]
+}
@@ -0,0 +1,24 @@
+import type { SelectablePromise } from './channel-api.js'
+
+// Channel that an operation reads from or writes into. Not a part of
+// `SelectablePromise` interface, as only `raceAll()` needs it, to reject
+// operations on the same channel
+const targets = new WeakMap<SelectablePromise<unknown>, object>()
+
+/**
+ * Remembers that `op` reads from or writes into `target`. Returns `op`
+ */
+export function setOperationTarget<P extends SelectablePromise<unknown>>(
+    op: P,
+    target: object
+): P {
+    targets.set(op, target)
+    return op
+}
+
+/**
+ * Returns the channel passed to {@link setOperationTarget} for `op`, if any
+ */
+export function getOperationTarget(op: SelectablePromise<unknown>): object | undefined {
+    return targets.get(op)
+}
@@ -0,0 +1,13 @@
+/**
+ * Reads `iterable` (e.g. a channel) until it ends. Returns all the values.
+ * Used by tests
+ */
+export async function readAll<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+    const values: T[] = []
+
+    for await (const value of iterable) {
+        values.push(value)
+    }
+
+    return values
+}
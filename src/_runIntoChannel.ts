@@ -0,0 +1,31 @@
+import type { NotUndefined, ReadableChannel, WritableChannel } from './channel-api.js'
+import { Channel } from './Channel.js'
+
+/**
+ * Creates a channel and starts `fn` that writes values into it. Once `fn`
+ * completes, closes the channel. If `fn` throws, closes the channel with
+ * the error
+ *
+ * Used to implement operators that return a {@link ReadableChannel}
+ */
+export function runIntoChannel<T extends NotUndefined>(
+    capacity: number,
+    fn: (output: WritableChannel<T>) => Promise<void>,
+): ReadableChannel<T> {
+    const output = new Channel<T>(capacity)
+
+    void run()
+    return output
+
+    async function run() {
+        try {
+            await fn(output)
+        }
+        catch (error) {
+            output.close(error)
+            return
+        }
+
+        output.close()
+    }
+}
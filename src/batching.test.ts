@@ -0,0 +1,121 @@
+import { expect, test } from 'vitest'
+import { bufferTime, bufferTimeOrCount, partitionCount } from './batching.js'
+import { Channel } from './Channel.js'
+import { ManualClock, type Clock } from './clock.js'
+import { expectToBlock } from './_expectToBlock.js'
+import { expectNextValue, expectToEnd } from './_expectIteratorResult.js'
+import { readAll } from './_readAll.js'
+
+test('partitionCount() yields groups of groupSize, and the incomplete last group', async () => {
+    const ch = new Channel<number>(10)
+    const iterator = partitionCount(ch, 2)[Symbol.asyncIterator]()
+
+    await ch.write(1)
+    await ch.write(2)
+    await ch.write(3)
+    ch.close()
+
+    await expectNextValue(iterator.next(), [1, 2])
+    await expectNextValue(iterator.next(), [3])
+    await expectToEnd(iterator.next())
+})
+
+test('bufferTime() yields group once windowMs elapse since the first value', async () => {
+    const clock = new ManualClock()
+
+    const ch = new Channel<number>(10)
+    const iterator = bufferTime(ch, 1000, { clock })[Symbol.asyncIterator]()
+
+    const nextPromise = iterator.next()
+    await ch.write(1)
+    await expectToBlock(nextPromise)
+
+    await clock.advance(600)
+    await ch.write(2)
+    await expectToBlock(nextPromise)
+
+    // 1000ms since the first value, but only 400ms since the last one
+    await clock.advance(400)
+    await expectNextValue(nextPromise, [1, 2])
+})
+
+test('bufferTimeOrCount() yields complete group before maxLatencyMs', async () => {
+    const clock = new ManualClock()
+
+    const ch = new Channel<number>(10)
+    const iterator = bufferTimeOrCount(ch, 2, 1000, { clock })[Symbol.asyncIterator]()
+
+    await ch.write(1)
+    await ch.write(2)
+
+    await expectNextValue(iterator.next(), [1, 2])
+    expect(clock.pendingTimersCount).toBe(0)
+})
+
+test(
+    'bufferTimeOrCount() yields incomplete group once maxLatencyMs elapse ' +
+    'since the first value, even if values keep coming',
+
+    async () => {
+        const clock = new ManualClock()
+
+        const ch = new Channel<number>(10)
+        const iterator = bufferTimeOrCount(ch, 10, 1000, { clock })[Symbol.asyncIterator]()
+
+        const nextPromise = iterator.next()
+
+        for (let i = 0; i < 3; ++i) {
+            await ch.write(i)
+            await expectToBlock(nextPromise)
+
+            await clock.advance(300)
+        }
+
+        await expectToBlock(nextPromise)
+
+        await clock.advance(100)
+        await expectNextValue(nextPromise, [0, 1, 2])
+    }
+)
+
+test(
+    'bufferTimeOrCount() yields the group once maxLatencyMs elapse, even if ' +
+    'source has more values buffered',
+
+    async () => {
+        // Fires timers right away, so the deadline of each group passes
+        // before the second value is read
+        const clock: Clock = {
+            now: () => 0,
+            setTimeout: callback => callback(),
+            clearTimeout: () => {},
+        }
+
+        const ch = new Channel<number>(10)
+
+        for (let i = 0; i < 10; ++i) {
+            await ch.write(i)
+        }
+
+        ch.close()
+
+        const groups = await readAll(bufferTimeOrCount(ch, 10, 1000, { clock }))
+        expect(groups).toStrictEqual([[0], [1], [2], [3], [4], [5], [6], [7], [8], [9]])
+    }
+)
+
+test('If channel closes with an error, yields the incomplete group, then throws', async () => {
+    const ch = new Channel<number>(10)
+    const iterator = bufferTimeOrCount(ch, 3, 60_000)[Symbol.asyncIterator]()
+    const error = new Error('Producer failed')
+
+    await ch.write(1)
+    ch.close(error)
+
+    await expectNextValue(iterator.next(), [1])
+    await expect(iterator.next()).rejects.toBe(error)
+})
+
+test.for([0, 1.5])('groupSize must be an integer >= 1 (%s)', groupSize => {
+    expect(() => partitionCount(new Channel(0), groupSize)).toThrowError(groupSize.toString())
+})
@@ -0,0 +1,168 @@
+import type { NotUndefined, ReadableChannel } from './channel-api.js'
+import { realClock, type Clock, type ClockOptions } from './clock.js'
+import { raceAbortSignal, select } from './select.js'
+import { assertIsMs } from './_assertIsMs.js'
+import { makeTimeoutSignal } from './_makeTimeoutSignal.js'
+
+// Batching operators complementing `partitionTime()`. Unlike it, the time
+// limit here is measured from the first value of the group, which gives a hard
+// upper bound on how long a value waits in the group
+//
+// Common semantics (same as of `partitionTime()`):
+//
+// - The returned iterable is closed once `source` closes. If there is an
+// incomplete group, it is yielded before closing
+//
+// - If `source` is closed with an error, the returned iterable throws that
+// error. If there is an incomplete group, it is yielded before throwing
+//
+// - Never yields empty arrays
+
+/**
+ * Reads from `source` channel in groups of size `groupSize`. The last group
+ * may be incomplete
+ *
+ * @param groupSize Must be an integer >= 1
+ */
+export function partitionCount<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    groupSize: number,
+): AsyncIterable<[T, ...T[]]> {
+    assertIsGroupSize(groupSize)
+    return batches(source, groupSize, Infinity, realClock)
+}
+
+/**
+ * Reads from `source` channel in groups collected over fixed time windows.
+ * The window starts when the first value of the group is read, and the group
+ * is yielded once `windowMs` elapse since then
+ *
+ * Nothing is yielded while `source` has no values
+ *
+ * @param windowMs Must be >= 0
+ */
+export function bufferTime<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    windowMs: number,
+    options: ClockOptions = {},
+): AsyncIterable<[T, ...T[]]> {
+    assertIsMs(windowMs, 'windowMs')
+    return batches(source, Infinity, windowMs, options.clock ?? realClock)
+}
+
+/**
+ * Reads from `source` channel in groups of size `groupSize`. However, if more
+ * than `maxLatencyMs` elapse since the first value of the group was read,
+ * yields an incomplete group (with length < `groupSize`) early
+ *
+ * Unlike {@link partitionTime}, guarantees that no value waits in the group
+ * for longer than `maxLatencyMs`, even if `source` produces values slowly
+ * but steadily
+ *
+ * @param groupSize Must be an integer >= 1
+ * @param maxLatencyMs Must be >= 0
+ *
+ * @example
+ *
+ * ```ts
+ * // Insert in batches of up to 100 rows. Each row is inserted at most
+ * // 5s after it was produced
+ * for await (const batch of bufferTimeOrCount(rows, 100, 5000)) {
+ *  await insertInDb(batch)
+ * }
+ * ```
+ */
+export function bufferTimeOrCount<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    groupSize: number,
+    maxLatencyMs: number,
+    options: ClockOptions = {},
+): AsyncIterable<[T, ...T[]]> {
+    assertIsGroupSize(groupSize)
+    assertIsMs(maxLatencyMs, 'maxLatencyMs')
+
+    return batches(source, groupSize, maxLatencyMs, options.clock ?? realClock)
+}
+
+async function* batches<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    maxSize: number,
+    maxLatencyMs: number,
+    clock: Clock,
+): AsyncIterable<[T, ...T[]]> {
+    while (true) {
+        const first = await source.read()
+
+        // source closed
+        if (first === undefined) {
+            return
+        }
+
+        const [group, error] = await collectGroup(source, first, maxSize, maxLatencyMs, clock)
+        yield group
+
+        if (error !== null) {
+            throw error.error
+        }
+    }
+}
+
+/**
+ * If `source` throws while collecting, returns the collected group along
+ * with the error, so the values are not lost
+ */
+async function collectGroup<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    first: T,
+    maxSize: number,
+    maxLatencyMs: number,
+    clock: Clock,
+): Promise<[[T, ...T[]], { error: unknown } | null]> {
+    const group: [T, ...T[]] = [first]
+    const [deadline, clearDeadline] = makeTimeoutSignal(maxLatencyMs, clock)
+
+    try {
+        while (group.length < maxSize) {
+            let winner
+
+            try {
+                // Deadline goes first, so buffered values of `source` do not
+                // keep growing the group once it has passed
+                winner = await select({
+                    deadline: raceAbortSignal(deadline),
+                    value: source.raceRead(),
+                }, { priority: true })
+            }
+            catch (error) {
+                return [group, { error }]
+            }
+
+            switch (winner.type) {
+                case 'value': {
+                    if (winner.value === undefined) {
+                        // source has closed
+                        return [group, null]
+                    }
+
+                    group.push(winner.value)
+                    continue
+                }
+
+                case 'deadline': {
+                    return [group, null]
+                }
+            }
+        }
+
+        return [group, null]
+    }
+    finally {
+        clearDeadline()
+    }
+}
+
+function assertIsGroupSize(groupSize: number) {
+    if (!Number.isInteger(groupSize) || groupSize < 1) {
+        throw new Error(`groupSize must be an integer >= 1. Got: ${groupSize}`)
+    }
+}
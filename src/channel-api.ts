@@ -34,7 +34,8 @@ export interface ReadableChannel<T extends NotUndefined> extends HasClosed, Asyn
      * {@link WritableChannel.write}
      * 
      * If the channel is closed and has no values left in the buffer, 
-     * returns `undefined`
+     * returns `undefined`. If the channel was closed with an error (see 
+     * {@link WritableChannel.close}), throws that error instead
      * 
      * Concurrent calls are allowed - each read will get own value (no 
      * two reads will get the same value). If multiple calls are blocked,
@@ -43,8 +44,13 @@ export interface ReadableChannel<T extends NotUndefined> extends HasClosed, Asyn
      * > Note: each blocked call occupies memory, and there is no limit on 
      * how many calls there can be at once. Typically, programs have a fixed
      * or a finite number of reads, so this should not be a problem
+     * 
+     * @param signal Use the signal to cancel the read. If the signal aborts
+     * while the call is blocked, no value is read, memory occupied by the 
+     * call is freed, and the call throws {@link AbortedError}. If the signal 
+     * is already aborted, throws {@link AbortedError} without reading
      */
-    read: () => Promise<T | undefined>
+    read: (signal?: AbortSignal) => Promise<T | undefined>
 
     /**
      * Non-blocking version of {@link ReadableChannel.read}. Unlike 
@@ -53,9 +59,63 @@ export interface ReadableChannel<T extends NotUndefined> extends HasClosed, Asyn
      * This means `undefined` is returned in two cases: (1) the channel is open
      * but has no values, and the channel is closed and has no values. Use
      * {@link ReadableChannel.closed} to tell those apart
+     * 
+     * Like {@link ReadableChannel.read}, throws if the channel was closed
+     * with an error and has no values
      */
     tryRead: () => T | undefined
 
+    /**
+     * Like {@link ReadableChannel.read}, but returns the next value without
+     * taking it from the channel. Blocks until there is a value
+     * 
+     * Does not unblock {@link WritableChannel.write} calls. Concurrent readers
+     * may take the value after it is peeked, so the next 
+     * {@link ReadableChannel.read} may return a different value
+     * 
+     * If the channel is closed and has no values left, returns `undefined`.
+     * If the channel was closed with an error, throws that error instead
+     * 
+     * @param signal Use the signal to cancel the peek. If the signal aborts
+     * while the call is blocked, throws {@link AbortedError}
+     */
+    peek: (signal?: AbortSignal) => Promise<T | undefined>
+
+    /**
+     * Non-blocking version of {@link ReadableChannel.peek}. Returns `undefined`
+     * if the channel has no values
+     * 
+     * Like {@link ReadableChannel.tryRead}, throws if the channel was closed
+     * with an error and has no values
+     */
+    tryPeek: () => T | undefined
+
+    /**
+     * Like {@link ReadableChannel.read}, but reads up to `max` values at
+     * once. Blocks until there is at least one value, then synchronously 
+     * takes up to `max` values (from the buffer and blocked 
+     * {@link WritableChannel.write} calls)
+     * 
+     * If the channel is closed and has no values left, returns an empty 
+     * array. If the channel was closed with an error, throws that error
+     * instead
+     * 
+     * @param max Integer >= 1
+     * 
+     * @param signal Same as in {@link ReadableChannel.read}
+     */
+    readMany: (max: number, signal?: AbortSignal) => Promise<T[]>
+
+    /**
+     * Non-blocking: takes all values the channel currently has (from the 
+     * buffer and blocked {@link WritableChannel.write} calls). Returns an
+     * empty array if there are none
+     * 
+     * Like {@link ReadableChannel.tryRead}, throws if the channel was closed
+     * with an error and has no values
+     */
+    drain: () => T[]
+
     /**
      * Blocks until the channel is "readable", meaning that it either:
      * 
@@ -112,8 +172,13 @@ export interface WritableChannel<T extends NotUndefined> extends HasClosed {
      * order of calls to `write()`, so example above will always give `1, 2`. 
      * This will change in future if `worker_threads` support will be implemented.
      * It is not advisable to rely on this
+     * 
+     * @param signal Use the signal to cancel the write. If the signal aborts
+     * while the call is blocked, the value is not written, memory occupied
+     * by the call is freed, and the call throws {@link AbortedError}. If 
+     * the signal is already aborted, throws {@link AbortedError} without writing
      */
-    write: (value: T) => Promise<void>
+    write: (value: T, signal?: AbortSignal) => Promise<void>
 
     /**
      * Non-blocking version of {@link WritableChannel.write}. Returns `true`
@@ -123,6 +188,18 @@ export interface WritableChannel<T extends NotUndefined> extends HasClosed {
      */ 
     tryWrite: (value: T) => boolean
 
+    /**
+     * Writes `values` in order. Synchronously writes as many values as there
+     * is free space for, and blocks only when the channel is full, like 
+     * sequential {@link WritableChannel.write} calls would
+     * 
+     * If the channel is closed, or `signal` aborts, while the call is
+     * blocked, values before the blocked one remain written
+     * 
+     * @param signal Same as in {@link WritableChannel.write}
+     */
+    writeMany: (values: readonly T[], signal?: AbortSignal) => Promise<void>
+
     /**
      * Closes the channel. Closed channels cannot be written to. They can
      * still be read from if there are values left in the buffer
@@ -138,9 +215,17 @@ export interface WritableChannel<T extends NotUndefined> extends HasClosed {
      * - Calls to {@link ReadableChannel.read} will consume the values left
      * in the buffer before returning `undefined` 
      * 
-     * Unlike in Go, this method is idempotent
+     * If `error` is passed (is not `undefined`), the channel is closed with
+     * an error, meaning that failure of the writer is propagated to readers.
+     * Once the values left in the buffer are consumed, calls to 
+     * {@link ReadableChannel.read} and {@link ReadableChannel.tryRead} throw
+     * `error` instead of returning `undefined`. So do `for await` loops
+     * over the channel and {@link select} with {@link ReadableChannel.raceRead}
+     * 
+     * Unlike in Go, this method is idempotent. Only the first call has 
+     * effect, so the channel cannot be failed after it was closed normally
      */
-    close: () => void
+    close: (error?: unknown) => void
 
     /**
      * Blocks until the channel is "writable", meaning that it either:
@@ -189,8 +274,31 @@ export class CannotWriteIntoClosedChannel extends NamedError {}
  * 
  * - {@link SelectablePromise.wait} should reject with an error 
  * (preferably {@link AbortedError}) when the passed `signal` is aborted
+ * 
+ * - {@link SelectablePromise.attempt} may be called at any time, not only
+ * after `wait()` has resolved. E.g. {@link select} first attempts all 
+ * operations without waiting, and with {@link SelectOptions.priority} 
+ * attempts operations whose waits have not resolved. If the operation 
+ * cannot be performed, `attempt()` must return `[false]` without performing
+ * any part of it (e.g. without reading a value)
+ * 
+ * - {@link SelectablePromise.canAttempt} is optional. If implemented, it
+ * must not have side effects, and must return `true` if and only if
+ * {@link SelectablePromise.attempt} called right after it would succeed. If
+ * `attempt()` would throw, `canAttempt()` should throw the same error
+ * 
+ * `canAttempt()` is required to combine operations with {@link raceAll}
+ * 
+ * - {@link SelectablePromise.passWakeup} is optional. Operations whose `wait()`
+ * wakes only one of multiple waiters at a time (like reads and writes of 
+ * {@link Channel}) should implement it. It is called when `wait()` has resolved, 
+ * but the operation is not going to be performed (e.g. {@link raceAll} waits
+ * for other operations). It must wake another waiter if the operation can
+ * still be performed, so that waiter is not left blocked
  */
 export interface SelectablePromise<T> {
     wait: <const R>(value: R, signal?: AbortSignal) => Promise<R>
     attempt: () => [true, T] | [false]
+    canAttempt?: () => boolean
+    passWakeup?: () => void
 }
@@ -0,0 +1,104 @@
+import { expect, test } from 'vitest'
+import { Channel } from './Channel.js'
+import { ManualClock } from './clock.js'
+import { partitionTime } from './partitionTime.js'
+import { raceTimeout, select } from './select.js'
+import { ticker } from './ticker.js'
+import { windowTime } from './windowTime.js'
+import { expectToBlock } from './_expectToBlock.js'
+
+test('ManualClock fires due timers in order of time, then in order of setting', async () => {
+    const clock = new ManualClock(100)
+    const fired: string[] = []
+
+    clock.setTimeout(() => fired.push('b'), 20)
+    clock.setTimeout(() => fired.push('a'), 10)
+    clock.setTimeout(() => fired.push('c'), 20)
+    clock.setTimeout(() => fired.push('d'), 30)
+
+    await clock.advance(20)
+
+    expect(fired).toStrictEqual(['a', 'b', 'c'])
+    expect(clock.now()).toBe(120)
+    expect(clock.pendingTimersCount).toBe(1)
+})
+
+test('ManualClock does not fire cleared timers', async () => {
+    const clock = new ManualClock()
+    let fired = false
+
+    const handle = clock.setTimeout(() => fired = true, 10)
+    clock.clearTimeout(handle)
+
+    await clock.advance(10)
+
+    expect(fired).toBe(false)
+    expect(clock.pendingTimersCount).toBe(0)
+})
+
+test('ManualClock fires timers set by callbacks, if they become due', async () => {
+    const clock = new ManualClock()
+    const firedAt: number[] = []
+
+    clock.setTimeout(function callback() {
+        firedAt.push(clock.now())
+        clock.setTimeout(callback, 10)
+    }, 10)
+
+    await clock.advance(35)
+
+    expect(firedAt).toStrictEqual([10, 20, 30])
+})
+
+test('ManualClock.advance() settles select() with raceTimeout()', async () => {
+    const clock = new ManualClock()
+    const ch = new Channel<number>(0)
+
+    const selectPromise = select({
+        value: ch.raceRead(),
+        timedOut: raceTimeout(1000, { clock }),
+    })
+
+    await clock.advance(999)
+    await expectToBlock(selectPromise)
+
+    await clock.advance(1)
+    expect(await selectPromise).toStrictEqual({ type: 'timedOut', value: undefined })
+})
+
+test('ManualClock.advance() settles loops that start a new timer after each one', async () => {
+    const clock = new ManualClock()
+    const source = new Channel<number>(0)
+    const windows = windowTime(source, { sizeMs: 1000, clock }, 10)
+
+    await source.write(1)
+    await clock.advance(3000)
+
+    expect(await windows.read()).toStrictEqual([1])
+    expect(await windows.read()).toStrictEqual([])
+    expect(await windows.read()).toStrictEqual([])
+})
+
+test('ManualClock works with partitionTime()', async () => {
+    const clock = new ManualClock()
+    const source = new Channel<number>(0)
+    const iterator = partitionTime(source, 10, 1000, { clock })[Symbol.asyncIterator]()
+
+    const nextPromise = iterator.next()
+    await source.write(1)
+
+    await clock.advance(1000)
+    expect(await nextPromise).toStrictEqual({ done: false, value: [1] })
+})
+
+test('ManualClock works with ticker()', async () => {
+    const clock = new ManualClock(5000)
+    const controller = new AbortController()
+    const ticks = ticker(1000, { signal: controller.signal, clock })
+
+    await clock.advance(1000)
+    expect(await ticks.read()).toBe(6000)
+
+    controller.abort()
+    expect(clock.pendingTimersCount).toBe(0)
+})
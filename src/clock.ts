@@ -0,0 +1,169 @@
+import { assertIsMs } from './_assertIsMs.js'
+
+/**
+ * Source of time for time-based functions (e.g. {@link raceTimeout},
+ * {@link partitionTime}, {@link ticker}). Every such function accepts
+ * an optional clock via {@link ClockOptions}, and uses {@link realClock}
+ * by default
+ *
+ * Use {@link ManualClock} in tests to control time deterministically
+ */
+export interface Clock {
+    /**
+     * Current time in milliseconds, like `Date.now()`
+     */
+    now: () => number
+
+    /**
+     * Calls `callback` once `ms` elapse. Returns a handle that can be passed
+     * to {@link Clock.clearTimeout}
+     */
+    setTimeout: (callback: () => void, ms: number) => unknown
+
+    /**
+     * Cancels the callback scheduled with {@link Clock.setTimeout}. Does
+     * nothing if it was already called or cancelled
+     */
+    clearTimeout: (handle: unknown) => void
+}
+
+export interface ClockOptions {
+    /**
+     * Defaults to {@link realClock}
+     */
+    clock?: Clock
+}
+
+/**
+ * Clock that uses global `Date.now()`, `setTimeout()` and `clearTimeout()`.
+ * Globals are looked up on each call, so fake timers of test frameworks work
+ * with it too
+ */
+export const realClock: Clock = {
+    now: () => Date.now(),
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: handle => clearTimeout(handle),
+}
+
+/**
+ * Virtual clock for tests. Time moves only when {@link ManualClock.advance}
+ * is called
+ *
+ * Unlike fake timers of test frameworks, `advance()` waits for the code
+ * woken up by each timer to settle before firing the next one. So code
+ * that reacts to a timer by starting a new one (like a {@link select} loop
+ * with {@link raceTimeout}) behaves the same as with the real time
+ *
+ * Settling is done by waiting for a real `setTimeout(0)`, so do not combine
+ * this with fake timers
+ *
+ * @example
+ *
+ * ```ts
+ * const clock = new ManualClock()
+ *
+ * const selectPromise = select({
+ *  value: ch.raceRead(),
+ *  timedOut: raceTimeout(1000, { clock }),
+ * })
+ *
+ * await clock.advance(1000)
+ * // selectPromise resolves with { type: 'timedOut' }
+ * ```
+ */
+export class ManualClock implements Clock {
+    private time: number
+    private nextTimerId = 1
+
+    // Sorted by `at`, then by `id`, so timers with the same time fire in
+    // the order they were set
+    private timers: ManualTimer[] = []
+
+    /**
+     * @param startTime Value of {@link ManualClock.now} initially. Defaults
+     * to 0
+     */
+    constructor(startTime = 0) {
+        this.time = startTime
+    }
+
+    /**
+     * Number of timers that are set and have not fired yet
+     */
+    get pendingTimersCount(): number {
+        return this.timers.length
+    }
+
+    now(): number {
+        return this.time
+    }
+
+    setTimeout(callback: () => void, ms: number): unknown {
+        const timer: ManualTimer = {
+            id: this.nextTimerId++,
+            at: this.time + Math.max(0, ms),
+            callback,
+        }
+
+        const index = this.timers.findIndex(t => t.at > timer.at)
+
+        if (index === -1) {
+            this.timers.push(timer)
+        }
+        else {
+            this.timers.splice(index, 0, timer)
+        }
+
+        return timer.id
+    }
+
+    clearTimeout(handle: unknown): void {
+        const index = this.timers.findIndex(t => t.id === handle)
+
+        if (index !== -1) {
+            this.timers.splice(index, 1)
+        }
+    }
+
+    /**
+     * Moves time forward by `ms`, firing timers that become due in order.
+     * Before and after each timer, waits for the woken up code to settle.
+     * Timers set by that code are fired too, if they become due within `ms`
+     *
+     * Resolves once the time is advanced and all the code has settled
+     *
+     * @param ms Must be >= 0
+     */
+    async advance(ms: number): Promise<void> {
+        assertIsMs(ms)
+
+        const target = this.time + ms
+        await settle()
+
+        while (true) {
+            const timer = this.timers[0]
+
+            if (timer === undefined || timer.at > target) {
+                break
+            }
+
+            this.timers.shift()
+            this.time = timer.at
+
+            timer.callback()
+            await settle()
+        }
+
+        this.time = target
+    }
+}
+
+interface ManualTimer {
+    id: number
+    at: number
+    callback: () => void
+}
+
+function settle() {
+    return new Promise<void>(resolve => setTimeout(resolve, 0))
+}
@@ -25,3 +25,4 @@ declare interface AbortSignal {
 }
 
 declare function setTimeout(callback: () => void, ms: number): unknown
+declare function clearTimeout(handle: unknown): void
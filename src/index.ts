@@ -1,8 +1,20 @@
 export * from './AbortablePromise.js'
 export * from './asyncIteratorForChannel.js'
+export * from './batching.js'
 export * from './channel-api.js'
 export * from './Channel.js'
+export * from './clock.js'
 export * from './mapping.js'
 export * from './merge.js'
+export * from './mult.js'
+export * from './operators.js'
 export * from './partitionTime.js'
+export * from './pipe.js'
+export * from './pipelineAsync.js'
+export * from './pub.js'
+export * from './rateLimit.js'
 export * from './select.js'
+export * from './selectLoop.js'
+export * from './split.js'
+export * from './ticker.js'
+export * from './windowTime.js'
@@ -1,5 +1,6 @@
 import { asyncIteratorForChannel } from './asyncIteratorForChannel.js'
-import type { NotUndefined, ReadableChannel, WritableChannel } from './channel-api.js'
+import type { NotUndefined, ReadableChannel, SelectablePromise, WritableChannel } from './channel-api.js'
+import { getOperationTarget, setOperationTarget } from './_operationTarget.js'
 
 /**
  * Applies function to values before they are written into the channel
@@ -13,14 +14,18 @@ export function mapWritableChannel<T extends NotUndefined, R extends NotUndefine
             return channel.closed
         },
 
-        async write(value) {
-            await channel.write(fn(value))
+        async write(value, signal) {
+            await channel.write(fn(value), signal)
         },
 
         tryWrite(value) {
             return channel.tryWrite(fn(value))
         },
 
+        async writeMany(values, signal) {
+            await channel.writeMany(values.map(fn), signal)
+        },
+
         waitUntilWritable(value, signal) {
             return channel.waitUntilWritable(value, signal)
         },
@@ -33,8 +38,8 @@ export function mapWritableChannel<T extends NotUndefined, R extends NotUndefine
             return channel.raceWrite(fn(value))
         },
 
-        close() {
-            channel.close()
+        close(error) {
+            channel.close(error)
         },
     }
 }
@@ -51,8 +56,8 @@ export function mapReadableChannel<T extends NotUndefined, R extends NotUndefine
             return channel.closed
         },
 
-        async read() {
-            const value = await channel.read()
+        async read(signal) {
+            const value = await channel.read(signal)
             return value === undefined ? undefined : fn(value)
         },
 
@@ -61,6 +66,25 @@ export function mapReadableChannel<T extends NotUndefined, R extends NotUndefine
             return value === undefined ? undefined : fn(value)
         },
 
+        async peek(signal) {
+            const value = await channel.peek(signal)
+            return value === undefined ? undefined : fn(value)
+        },
+
+        tryPeek() {
+            const value = channel.tryPeek()
+            return value === undefined ? undefined : fn(value)
+        },
+
+        async readMany(max, signal) {
+            const values = await channel.readMany(max, signal)
+            return values.map(fn)
+        },
+
+        drain() {
+            return channel.drain().map(fn)
+        },
+
         waitUntilReadable(value, signal) {
             return channel.waitUntilReadable(value, signal)
         },
@@ -72,7 +96,7 @@ export function mapReadableChannel<T extends NotUndefined, R extends NotUndefine
         raceRead() {
             const p = channel.raceRead()
             
-            return {
+            const mapped: SelectablePromise<R | undefined> = {
                 wait(value, signal) {
                     return p.wait(value, signal)
                 },
@@ -86,7 +110,18 @@ export function mapReadableChannel<T extends NotUndefined, R extends NotUndefine
 
                     return value
                 },
+
+                canAttempt: p.canAttempt === undefined
+                    ? undefined
+                    : () => p.canAttempt!(),
+
+                passWakeup: p.passWakeup === undefined
+                    ? undefined
+                    : () => p.passWakeup!(),
             }
+
+            const target = getOperationTarget(p)
+            return target === undefined ? mapped : setOperationTarget(mapped, target)
         },
 
         [Symbol.asyncIterator]() {
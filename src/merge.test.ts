@@ -0,0 +1,28 @@
+import { expect, test } from 'vitest'
+import { merge } from './merge.js'
+import { Channel } from './Channel.js'
+import { readAll } from './_readAll.js'
+
+test('Yields values from all iterables, then closes', async () => {
+    async function* numbers(from: number) {
+        yield from
+        yield from + 1
+    }
+
+    const values = await readAll(merge([numbers(1), numbers(10)], 0))
+    expect(values.sort((a, b) => a - b)).toEqual([1, 2, 10, 11])
+})
+
+test('If any iterable throws, closes the output with that error', async () => {
+    const error = new Error('Producer failed')
+    const failing = new Channel<number>(1)
+    const open = new Channel<number>(0)
+
+    const output = merge([failing, open], 0)
+
+    await failing.write(1)
+    failing.close(error)
+
+    await expect(output.read()).resolves.toBe(1)
+    await expect(output.read()).rejects.toBe(error)
+})
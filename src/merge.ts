@@ -1,5 +1,5 @@
-import type { ReadableChannel } from './channel-api.js'
-import { Channel } from './Channel.js'
+import type { ReadableChannel, WritableChannel } from './channel-api.js'
+import { runIntoChannel } from './_runIntoChannel.js'
 
 type IterableElementType<T> = 
     T extends AsyncIterable<infer U>
@@ -10,7 +10,10 @@ type IterableElementType<T> =
  * Merges AsyncIterables into a channel that yields values as soon as any 
  * iterable does
  * 
- * The returned channel closes once all iterables are closed
+ * The returned channel closes once all iterables are closed. If any of the 
+ * iterables throws, the returned channel is closed with that error (see 
+ * {@link WritableChannel.close}). Each of the other iterables is abandoned
+ * after its next value
  * 
  * @param outputChannelCapacity Capacity of the buffer of the returned channel. 0
  * would be a default choice
@@ -20,19 +23,12 @@ export function merge<TSources extends AsyncIterable<any>[]>(
     outputChannelCapacity: number,
 ): ReadableChannel<IterableElementType<TSources[number]>> {
     type T = IterableElementType<TSources[number]>
-    const output = new Channel<T>(outputChannelCapacity)
-    
-    void main()
-    return output
 
-    async function main() {
-        const promises = sources.map(worker)
-        await Promise.all(promises)
+    return runIntoChannel<T>(outputChannelCapacity, async output => {
+        await Promise.all(sources.map(source => worker(source, output)))
+    })
 
-        output.close()
-    }
-
-    async function worker(source: AsyncIterable<T>) {
+    async function worker(source: AsyncIterable<T>, output: WritableChannel<T>) {
         for await (const value of source) {
             await output.write(value)
         }
@@ -0,0 +1,149 @@
+import { expect, test } from 'vitest'
+import { mult } from './mult.js'
+import { Channel } from './Channel.js'
+import { expectToBlock } from './_expectToBlock.js'
+import { mapWritableChannel } from './mapping.js'
+
+test('Every tap receives every value', async () => {
+    const source = new Channel<number>(0)
+    const m = mult(source)
+
+    const a = m.tap(new Channel<number>(0))
+    const b = m.tap(new Channel<number>(0))
+
+    const w = source.write(1)
+
+    await expect(a.read()).resolves.toBe(1)
+    await expect(b.read()).resolves.toBe(1)
+    await w
+})
+
+test('Blocking tap blocks the source until its reader catches up', async () => {
+    const source = new Channel<number>(0)
+    const m = mult(source)
+
+    const fast = m.tap(new Channel<number>(0))
+    const slow = m.tap(new Channel<number>(0))
+
+    const w1 = source.write(1)
+    await expect(fast.read()).resolves.toBe(1)
+    await w1
+
+    // Source is not read again until `slow` gets the first value
+    const w2 = source.write(2)
+    await expectToBlock(w2)
+
+    await expect(slow.read()).resolves.toBe(1)
+    await w2
+})
+
+test('Dropping tap does not block the source', async () => {
+    const source = new Channel<number>(0)
+    const m = mult(source)
+
+    const fast = m.tap(new Channel<number>(0))
+    const dropping = m.tap(new Channel<number>(1, { bufferPolicy: 'dropping' }))
+
+    for (let i = 0; i < 3; ++i) {
+        const w = source.write(i)
+        await expect(fast.read()).resolves.toBe(i)
+        await w
+    }
+
+    expect(dropping.tryRead()).toBe(0)
+    expect(dropping.tryRead()).toBe(undefined)
+})
+
+test('untap() cancels the blocked write and stops delivering values', async () => {
+    const source = new Channel<number>(0)
+    const m = mult(source)
+
+    const a = m.tap(new Channel<number>(0))
+    const b = m.tap(new Channel<number>(0))
+
+    const w1 = source.write(1)
+    await expect(a.read()).resolves.toBe(1)
+    await w1
+
+    const w2 = source.write(2)
+    await expectToBlock(w2)
+
+    m.untap(b)
+    await w2
+
+    const w3 = source.write(3)
+    await expect(a.read()).resolves.toBe(2)
+    await expect(a.read()).resolves.toBe(3)
+    await w3
+
+    expect(b.tryRead()).toBe(undefined)
+    expect(b.closed).toBe(false)
+})
+
+test('Closing the source closes all taps, with the same error if any', async () => {
+    const source = new Channel<number>(0)
+    const m = mult(source)
+    const error = new Error('Producer failed')
+
+    const a = m.tap(new Channel<number>(0))
+    const b = m.tap(new Channel<number>(0))
+    const keptOpen = m.tap(new Channel<number>(0), { close: false })
+
+    source.close(error)
+
+    await expect(a.read()).rejects.toBe(error)
+    await expect(b.read()).rejects.toBe(error)
+
+    expect(keptOpen.closed).toBe(false)
+
+    const late = m.tap(new Channel<number>(0))
+    await expect(late.read()).rejects.toBe(error)
+})
+
+test('Taps closed by their readers are untapped', async () => {
+    const source = new Channel<number>(0)
+    const m = mult(source)
+
+    const a = m.tap(new Channel<number>(0))
+    const b = m.tap(new Channel<number>(0))
+
+    b.close()
+
+    const w = source.write(1)
+    await expect(a.read()).resolves.toBe(1)
+    await w
+})
+
+test('Tap whose write fails is untapped and closed with the error, others keep working', async () => {
+    const source = new Channel<number>(0)
+    const m = mult(source)
+    const error = new Error('Mapping failed')
+
+    const a = m.tap(new Channel<number>(0))
+    const failingTarget = new Channel<number>(1)
+
+    m.tap(mapWritableChannel(failingTarget, (value: number) => {
+        if (value === 2) {
+            throw error
+        }
+
+        return value
+    }))
+
+    const w1 = source.write(1)
+    await expect(a.read()).resolves.toBe(1)
+    await w1
+
+    const w2 = source.write(2)
+    await expect(a.read()).resolves.toBe(2)
+    await w2
+
+    await expect(failingTarget.read()).resolves.toBe(1)
+    await expect(failingTarget.read()).rejects.toBe(error)
+
+    const w3 = source.write(3)
+    await expect(a.read()).resolves.toBe(3)
+    await w3
+
+    expect(a.closed).toBe(false)
+})
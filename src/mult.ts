@@ -0,0 +1,202 @@
+import { AbortedError } from './AbortablePromise.js'
+import { CannotWriteIntoClosedChannel, type NotUndefined, type ReadableChannel, type WritableChannel } from './channel-api.js'
+
+/**
+ * Multiple of a channel, returned by {@link mult}. Every value read from the
+ * source channel is written into every tapped channel
+ */
+export interface Mult<T extends NotUndefined> {
+    /**
+     * Starts writing values from the source into `channel`. The channel
+     * receives every value read from the source after this call
+     *
+     * Returns `channel` for convenience
+     *
+     * Tapping the channel that is already tapped only updates the options
+     */
+    tap: <C extends WritableChannel<T>>(channel: C, options?: TapOptions) => C
+
+    /**
+     * Stops writing values from the source into `channel`. If a write into
+     * `channel` is blocked, it is cancelled, so the value is not written
+     *
+     * Does not close `channel`. Does nothing if `channel` is not tapped
+     */
+    untap: (channel: WritableChannel<T>) => void
+
+    /**
+     * Same as calling {@link Mult.untap} on every tapped channel
+     */
+    untapAll: () => void
+
+    /**
+     * Number of currently tapped channels
+     */
+    readonly tapsCount: number
+}
+
+export interface TapOptions {
+    /**
+     * Whether to close the tapped channel once the source closes. Defaults
+     * to `true`
+     *
+     * If the source is closed with an error, the tapped channel is closed
+     * with the same error
+     */
+    close?: boolean
+}
+
+/**
+ * Similar to `mult` in Clojure's `core.async`: reads values from `source`
+ * and writes each value into all tapped channels. Use {@link Mult.tap}
+ * to subscribe
+ *
+ * Reading starts immediately. Values read while there are no taps are
+ * discarded
+ *
+ * Next value is read from `source` only after the current one is written
+ * into all taps. So backpressure is configured by the tapped channels:
+ *
+ * - If a tapped channel blocks on writes (e.g. `new Channel(10)`), a slow
+ * reader of that channel slows down reading from `source`
+ *
+ * - If a tapped channel never blocks on writes (e.g.
+ * `new Channel(10, { bufferPolicy: 'dropping' })`), a slow reader of that
+ * channel misses values instead
+ *
+ * Tapped channels that get closed by someone else are untapped automatically
+ *
+ * If a write into a tapped channel fails with any other error (e.g. the
+ * function of {@link mapWritableChannel} throws), only that channel is
+ * untapped. It is closed with the error, unless {@link TapOptions.close}
+ * is `false`. Other taps keep receiving values
+ *
+ * @example
+ *
+ * ```ts
+ * const m = mult(source)
+ *
+ * const fast = m.tap(new Channel<number>(0))
+ * const slow = m.tap(new Channel<number>(1, { bufferPolicy: 'sliding' }))
+ * ```
+ */
+export function mult<T extends NotUndefined>(source: ReadableChannel<T>): Mult<T> {
+    const taps = new Map<WritableChannel<T>, Tap>()
+
+    // Set once `source` is closed. Taps added after that are closed right away
+    let sourceResult: { error: unknown } | null = null
+
+    void main()
+
+    return {
+        tap(channel, options = {}) {
+            const close = options.close ?? true
+
+            if (sourceResult !== null) {
+                if (close) {
+                    channel.close(sourceResult.error)
+                }
+
+                return channel
+            }
+
+            const existing = taps.get(channel)
+
+            if (existing !== undefined) {
+                existing.close = close
+                return channel
+            }
+
+            taps.set(channel, { close, controller: new AbortController() })
+            return channel
+        },
+
+        untap(channel) {
+            const tap = taps.get(channel)
+
+            if (tap === undefined) {
+                return
+            }
+
+            taps.delete(channel)
+            tap.controller.abort()
+        },
+
+        untapAll() {
+            for (const tap of taps.values()) {
+                tap.controller.abort()
+            }
+
+            taps.clear()
+        },
+
+        get tapsCount() {
+            return taps.size
+        },
+    }
+
+    async function main() {
+        let error: unknown = undefined
+
+        try {
+            for await (const value of source) {
+                await writeToAllTaps(value)
+            }
+        }
+        catch (e) {
+            error = e
+        }
+
+        sourceResult = { error }
+
+        for (const [channel, tap] of taps) {
+            if (tap.close) {
+                channel.close(error)
+            }
+        }
+
+        taps.clear()
+    }
+
+    async function writeToAllTaps(value: T) {
+        const promises = Array.from(
+            taps,
+            ([channel, tap]) => writeToTap(channel, tap, value)
+        )
+
+        await Promise.all(promises)
+    }
+
+    async function writeToTap(channel: WritableChannel<T>, tap: Tap, value: T) {
+        try {
+            await channel.write(value, tap.controller.signal)
+        }
+        catch (error) {
+            // Untapped while the write was blocked
+            if (error instanceof AbortedError) {
+                return
+            }
+
+            if (error instanceof CannotWriteIntoClosedChannel) {
+                if (taps.get(channel) === tap) {
+                    taps.delete(channel)
+                }
+
+                return
+            }
+
+            if (taps.get(channel) === tap) {
+                taps.delete(channel)
+
+                if (tap.close) {
+                    channel.close(error)
+                }
+            }
+        }
+    }
+}
+
+interface Tap {
+    close: boolean
+    controller: AbortController
+}
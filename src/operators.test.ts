@@ -0,0 +1,113 @@
+import { expect, test } from 'vitest'
+import { distinctUntilChanged, drop, dropWhile, filter, flatMap, scan, take, takeWhile } from './operators.js'
+import { Channel } from './Channel.js'
+import type { ReadableChannel } from './channel-api.js'
+import { select } from './select.js'
+import { expectToBlock } from './_expectToBlock.js'
+import { readAll } from './_readAll.js'
+
+function channelOf<T extends {}>(...values: T[]): Channel<T> {
+    const ch = new Channel<T>(values.length)
+
+    for (const value of values) {
+        ch.tryWrite(value)
+    }
+
+    ch.close()
+    return ch
+}
+
+test('filter()', async () => {
+    const output = filter(channelOf(1, 2, 3, 4), x => x % 2 === 0, 0)
+    await expect(readAll(output)).resolves.toEqual([2, 4])
+})
+
+test('filter() narrows the type with type guard', () => {
+    const source = new Channel<number | string>(0)
+    const output: ReadableChannel<string> = filter(source, x => typeof x === 'string', 0)
+
+    void output
+})
+
+test('take()', async () => {
+    const source = channelOf(1, 2, 3, 4)
+    const output = take(source, 2, 0)
+
+    await expect(readAll(output)).resolves.toEqual([1, 2])
+
+    // Remaining values are not consumed
+    await expect(source.read()).resolves.toBe(3)
+})
+
+test('take(0) closes without reading', async () => {
+    const source = channelOf(1)
+
+    await expect(readAll(take(source, 0, 0))).resolves.toEqual([])
+    await expect(source.read()).resolves.toBe(1)
+})
+
+test('takeWhile()', async () => {
+    const output = takeWhile(channelOf(1, 2, 3, 1), x => x < 3, 0)
+    await expect(readAll(output)).resolves.toEqual([1, 2])
+})
+
+test('drop()', async () => {
+    const output = drop(channelOf(1, 2, 3, 4), 2, 0)
+    await expect(readAll(output)).resolves.toEqual([3, 4])
+})
+
+test('dropWhile()', async () => {
+    const output = dropWhile(channelOf(1, 2, 3, 1), x => x < 3, 0)
+    await expect(readAll(output)).resolves.toEqual([3, 1])
+})
+
+test('scan()', async () => {
+    const output = scan(channelOf(1, 2, 3), (sum, x) => sum + x, 0, 0)
+    await expect(readAll(output)).resolves.toEqual([1, 3, 6])
+})
+
+test('distinctUntilChanged()', async () => {
+    const output = distinctUntilChanged(channelOf(1, 1, 2, 2, 1, 3, 3), 0)
+    await expect(readAll(output)).resolves.toEqual([1, 2, 1, 3])
+})
+
+test('distinctUntilChanged() with custom equals', async () => {
+    const output = distinctUntilChanged(
+        channelOf('a', 'A', 'b'),
+        0,
+        (a, b) => a.toLowerCase() === b.toLowerCase(),
+    )
+
+    await expect(readAll(output)).resolves.toEqual(['a', 'b'])
+})
+
+test('flatMap()', async () => {
+    const output = flatMap(channelOf(1, 2), x => channelOf(x, x * 10), 0)
+    await expect(readAll(output)).resolves.toEqual([1, 10, 2, 20])
+})
+
+test('Errors of source and of passed functions close the output with the error', async () => {
+    const error = new Error('Failed')
+
+    const source = new Channel<number>(0)
+    source.close(error)
+
+    await expect(readAll(filter(source, () => true, 0))).rejects.toBe(error)
+
+    const throwing = scan(channelOf(1), () => { throw error }, 0, 0)
+    await expect(readAll(throwing)).rejects.toBe(error)
+})
+
+test('Returned channels can be used with select()', async () => {
+    const source = new Channel<number>(0)
+    const output = filter(source, x => x > 0, 0)
+
+    const s = select({ output: output.raceRead() })
+    await expectToBlock(s)
+
+    await source.write(0)
+    await expectToBlock(s)
+
+    await source.write(1)
+    await expect(s).resolves.toEqual({ type: 'output', value: 1 })
+})
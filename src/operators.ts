@@ -0,0 +1,224 @@
+import type { NotUndefined, ReadableChannel } from './channel-api.js'
+import { runIntoChannel } from './_runIntoChannel.js'
+
+// All operators below read values from `source` and write results into
+// the returned channel. Common semantics:
+//
+// - Reading starts immediately. Next value is read only after the previous
+// result is written, so backpressure of the returned channel propagates
+// to `source`
+//
+// - Once `source` closes, the returned channel closes. If `source` is closed
+// with an error, or a passed function throws, the returned channel is
+// closed with that error
+//
+// - `outputChannelCapacity` is capacity of the buffer of the returned
+// channel. 0 would be a default choice
+
+/**
+ * Passes through only values for which `predicate` returns `true`
+ */
+export function filter<T extends NotUndefined, S extends T>(
+    source: ReadableChannel<T>,
+    predicate: (value: T) => value is S,
+    outputChannelCapacity: number,
+): ReadableChannel<S>
+
+export function filter<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    predicate: (value: T) => boolean,
+    outputChannelCapacity: number,
+): ReadableChannel<T>
+
+export function filter<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    predicate: (value: T) => boolean,
+    outputChannelCapacity: number,
+): ReadableChannel<T> {
+    return runIntoChannel<T>(outputChannelCapacity, async output => {
+        for await (const value of source) {
+            if (predicate(value)) {
+                await output.write(value)
+            }
+        }
+    })
+}
+
+/**
+ * Passes through first `count` values, then closes the returned channel.
+ * Values after the first `count` are not read from `source`
+ *
+ * @param count Integer >= 0
+ */
+export function take<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    count: number,
+    outputChannelCapacity: number,
+): ReadableChannel<T> {
+    assertIsCount(count)
+
+    return runIntoChannel<T>(outputChannelCapacity, async output => {
+        for (let i = 0; i < count; ++i) {
+            const value = await source.read()
+
+            if (value === undefined) {
+                return
+            }
+
+            await output.write(value)
+        }
+    })
+}
+
+/**
+ * Passes through values while `predicate` returns `true`. Closes the returned
+ * channel on the first value for which `predicate` returns `false`. That
+ * value is discarded, values after it are not read from `source`
+ */
+export function takeWhile<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    predicate: (value: T) => boolean,
+    outputChannelCapacity: number,
+): ReadableChannel<T> {
+    return runIntoChannel<T>(outputChannelCapacity, async output => {
+        for await (const value of source) {
+            if (!predicate(value)) {
+                return
+            }
+
+            await output.write(value)
+        }
+    })
+}
+
+/**
+ * Discards first `count` values, then passes through the rest
+ *
+ * @param count Integer >= 0
+ */
+export function drop<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    count: number,
+    outputChannelCapacity: number,
+): ReadableChannel<T> {
+    assertIsCount(count)
+
+    return runIntoChannel<T>(outputChannelCapacity, async output => {
+        let dropped = 0
+
+        for await (const value of source) {
+            if (dropped < count) {
+                ++dropped
+                continue
+            }
+
+            await output.write(value)
+        }
+    })
+}
+
+/**
+ * Discards values while `predicate` returns `true`. Passes through the first
+ * value for which `predicate` returns `false` and all values after it
+ */
+export function dropWhile<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    predicate: (value: T) => boolean,
+    outputChannelCapacity: number,
+): ReadableChannel<T> {
+    return runIntoChannel<T>(outputChannelCapacity, async output => {
+        let dropping = true
+
+        for await (const value of source) {
+            if (dropping && predicate(value)) {
+                continue
+            }
+
+            dropping = false
+            await output.write(value)
+        }
+    })
+}
+
+/**
+ * Like `Array.prototype.reduce()`, but yields each intermediate result.
+ * `initial` itself is not yielded
+ *
+ * @example
+ *
+ * ```ts
+ * // Running sum: 1, 2, 3 -> 1, 3, 6
+ * const sums = scan(numbers, (sum, x) => sum + x, 0, 0)
+ * ```
+ */
+export function scan<T extends NotUndefined, A>(
+    source: ReadableChannel<T>,
+    reducer: (accumulator: A, value: T) => A,
+    initial: A,
+    outputChannelCapacity: number,
+): ReadableChannel<A & NotUndefined> {
+    // `A` has no `NotUndefined` constraint: with it, TypeScript infers literal
+    // types from `initial` (e.g. `0` instead of `number`)
+
+    return runIntoChannel<A & NotUndefined>(outputChannelCapacity, async output => {
+        let accumulator = initial
+
+        for await (const value of source) {
+            accumulator = reducer(accumulator, value)
+
+            // Throws if `reducer` returns `undefined`, closing the returned
+            // channel with the error
+            await output.write(accumulator as A & NotUndefined)
+        }
+    })
+}
+
+/**
+ * Discards values that are equal to the previous value. First value is
+ * always passed through
+ *
+ * @param equals Defaults to `Object.is()`
+ */
+export function distinctUntilChanged<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    outputChannelCapacity: number,
+    equals: (previous: T, current: T) => boolean = Object.is,
+): ReadableChannel<T> {
+    return runIntoChannel<T>(outputChannelCapacity, async output => {
+        let previous: { value: T } | null = null
+
+        for await (const value of source) {
+            if (previous !== null && equals(previous.value, value)) {
+                continue
+            }
+
+            previous = { value }
+            await output.write(value)
+        }
+    })
+}
+
+/**
+ * Maps each value to an iterable (a channel, an array, an async generator,
+ * etc.) and passes through all values of the iterable. Iterables are
+ * consumed one-by-one, so order of values is preserved
+ */
+export function flatMap<T extends NotUndefined, R extends NotUndefined>(
+    source: ReadableChannel<T>,
+    fn: (value: T) => Iterable<R> | AsyncIterable<R>,
+    outputChannelCapacity: number,
+): ReadableChannel<R> {
+    return runIntoChannel<R>(outputChannelCapacity, async output => {
+        for await (const value of source) {
+            for await (const result of fn(value)) {
+                await output.write(result)
+            }
+        }
+    })
+}
+
+function assertIsCount(count: number) {
+    if (!Number.isInteger(count) || count < 0) {
+        throw new Error(`count must be an integer >= 0. Got: ${count}`)
+    }
+}
@@ -2,6 +2,7 @@ import { afterEach, describe, expect, test, vi } from 'vitest'
 import { partitionTime } from './partitionTime.js'
 import { Channel } from './Channel.js'
 import { expectToBlock } from './_expectToBlock.js'
+import { expectNextValue, expectToEnd } from './_expectIteratorResult.js'
 
 afterEach(() => {
     vi.useRealTimers()
@@ -14,21 +15,6 @@ function useFakeSetTimeout() {
     })
 }
 
-async function expectNextValue<T>(
-    nextResult: Promise<IteratorResult<T>>,
-    value: T
-): Promise<void> {
-    const result = await nextResult
-
-    expect(result.done ?? false).toBe(false)
-    expect(result.value).toStrictEqual(value)
-}
-
-async function expectToEnd<T>(nextResult: Promise<IteratorResult<T>>): Promise<void> {
-    const result = await nextResult
-    expect(result.done).toBe(true)
-}
-
 test('Consumes channel values in groups of groupSize', async () => {
     const ch = new Channel<number>(10)
     const iterator = partitionTime(ch, 3, 60_000)[Symbol.asyncIterator]()
@@ -136,3 +122,20 @@ test('nextValueTimeoutMs timer resets with each read value', async () => {
 
     await expectToBlock(nextPromise)
 })
+
+test(
+    'If channel closes with an error, yields the incomplete group, then throws',
+
+    async () => {
+        const ch = new Channel<number>(10)
+        const iterator = partitionTime(ch, 3, 60_000)[Symbol.asyncIterator]()
+        const error = new Error('Producer failed')
+
+        await ch.write(1)
+        await ch.write(2)
+        ch.close(error)
+
+        await expectNextValue(iterator.next(), [1, 2])
+        await expect(iterator.next()).rejects.toBe(error)
+    }
+)
@@ -1,4 +1,5 @@
 import type { NotUndefined, ReadableChannel } from './channel-api.js'
+import type { ClockOptions } from './clock.js'
 import { raceTimeout, select } from './select.js'
 
 /**
@@ -9,6 +10,9 @@ import { raceTimeout, select } from './select.js'
  * The returned iterable is closed once `source` closes. If there is an 
  * incomplete group, it is yielded before closing
  * 
+ * If `source` is closed with an error, the returned iterable throws that
+ * error. If there is an incomplete group, it is yielded before throwing
+ * 
  * Never yields empty arrays
  * 
  * @param groupSize Must be an integer >= 1
@@ -60,6 +64,7 @@ export async function* partitionTime<T extends NotUndefined>(
     source: ReadableChannel<T>,
     groupSize: number,
     nextValueTimeoutMs: number,
+    options: ClockOptions = {},
 ): AsyncIterable<[T, ...T[]]> {
     if (!Number.isInteger(groupSize) || groupSize < 1) {
         throw new Error(`groupSize must be an integer >= 1. Got: ${groupSize}`)
@@ -73,24 +78,41 @@ export async function* partitionTime<T extends NotUndefined>(
             return
         }
 
-        const group = await collectGroup(first)
+        const [group, error] = await collectGroup(first)
         yield group
+
+        if (error !== null) {
+            throw error.error
+        }
     }
 
-    async function collectGroup(first: T): Promise<[T, ...T[]]> {
+    /**
+     * If `source` throws while collecting, returns the collected group 
+     * along with the error, so the values are not lost
+     */
+    async function collectGroup(
+        first: T
+    ): Promise<[[T, ...T[]], { error: unknown } | null]> {
         const group: [T, ...T[]] = [first]
         
         while (group.length < groupSize) {
-            const winner = await select({
-                value: source.raceRead(),
-                timeout: raceTimeout(nextValueTimeoutMs),
-            })
+            let winner
+
+            try {
+                winner = await select({
+                    value: source.raceRead(),
+                    timeout: raceTimeout(nextValueTimeoutMs, options),
+                })
+            }
+            catch (error) {
+                return [group, { error }]
+            }
 
             switch (winner.type) {
                 case 'value': {
                     if (winner.value === undefined) {
                         // source has closed
-                        return group
+                        return [group, null]
                     }
 
                     group.push(winner.value)
@@ -98,11 +120,11 @@ export async function* partitionTime<T extends NotUndefined>(
                 }
 
                 case 'timeout': {
-                    return group
+                    return [group, null]
                 }
             }
         }
 
-        return group
+        return [group, null]
     }
 }
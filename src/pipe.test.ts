@@ -0,0 +1,92 @@
+import { expect, test } from 'vitest'
+import { pipe } from './pipe.js'
+import { Channel } from './Channel.js'
+import { AbortedError } from './AbortablePromise.js'
+import { expectToBlock } from './_expectToBlock.js'
+import { select } from './select.js'
+
+test('Writes all values of `from` into `to`, then closes `to`', async () => {
+    const from = new Channel<number>(3)
+    const to = new Channel<number>(3)
+
+    await from.write(1)
+    await from.write(2)
+    from.close()
+
+    await pipe(from, to)
+
+    expect(to.closed).toBe(true)
+    await expect(to.read()).resolves.toBe(1)
+    await expect(to.read()).resolves.toBe(2)
+    await expect(to.read()).resolves.toBe(undefined)
+})
+
+test('With closeTarget=false, does not close `to`', async () => {
+    const from = new Channel<number>(0)
+    const to = new Channel<number>(1)
+
+    from.close()
+    await pipe(from, to, { closeTarget: false })
+
+    expect(to.closed).toBe(false)
+})
+
+test('If `from` is closed with an error, closes `to` with it and rejects', async () => {
+    const from = new Channel<number>(0)
+    const to = new Channel<number>(0)
+    const error = new Error('Producer failed')
+
+    from.close(error)
+
+    await expect(pipe(from, to)).rejects.toBe(error)
+    await expect(to.read()).rejects.toBe(error)
+})
+
+test('Resolves once `to` is closed', async () => {
+    const from = new Channel<number>(1)
+    const to = new Channel<number>(0)
+
+    const p = pipe(from, to)
+
+    await from.write(1)
+    await expectToBlock(p)
+
+    to.close()
+    await p
+})
+
+test('Does not take values from `from` once `to` is closed', async () => {
+    const from = new Channel<number>(1)
+    const to = new Channel<number>(0)
+
+    const p = pipe(from, to)
+    await expectToBlock(p)
+
+    to.close()
+
+    // Another reader of `from` is not left blocked either
+    const otherRead = select({ value: from.raceRead() })
+
+    from.tryWrite(42)
+    await p
+
+    await expect(otherRead).resolves.toStrictEqual({ type: 'value', value: 42 })
+})
+
+test('Stops once signal aborts, without closing `to`', async () => {
+    const from = new Channel<number>(1)
+    const to = new Channel<number>(0)
+    const controller = new AbortController()
+
+    const p = pipe(from, to, { signal: controller.signal })
+    await expectToBlock(p)
+
+    controller.abort()
+    await expect(p).rejects.toThrowError(AbortedError)
+
+    expect(to.closed).toBe(false)
+
+    // Read was cancelled, so values are no longer taken from `from`
+    await from.write(1)
+    expect(from.tryRead()).toBe(1)
+})
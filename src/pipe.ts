@@ -0,0 +1,109 @@
+import { CannotWriteIntoClosedChannel, type NotUndefined, type ReadableChannel, type WritableChannel } from './channel-api.js'
+
+export interface PipeOptions {
+    /**
+     * Whether to close `to` once `from` closes. Defaults to `true`
+     *
+     * If `from` is closed with an error, `to` is closed with the same error
+     */
+    closeTarget?: boolean
+
+    /**
+     * Use the signal to stop piping. Blocked read or write is cancelled.
+     * If a write was blocked, the value that was read from `from` for it
+     * is lost. `to` is not closed
+     */
+    signal?: AbortSignal
+}
+
+/**
+ * Similar to `pipe` in Clojure's `core.async`: reads values from `from` and
+ * writes them into `to`, until `from` closes. Unlike {@link merge}, works
+ * with an existing channel
+ *
+ * Next value is read only after the previous one is written, so backpressure
+ * of `to` propagates to `from`
+ *
+ * The returned promise:
+ *
+ * - Resolves once `from` closes and all its values are written into `to`
+ *
+ * - Resolves once `to` is closed by someone else. If a write was blocked,
+ * the value that was being written is lost. Otherwise, no more values are
+ * read from `from`: if `pipe()` waits for a value, it resolves once `from`
+ * becomes readable or closes, leaving the value in `from`
+ *
+ * - Rejects with the error `from` is closed with, if any
+ *
+ * - Rejects with {@link AbortedError} once {@link PipeOptions.signal} aborts
+ *
+ * @example
+ *
+ * ```ts
+ * // Forward values into a shared channel, keeping it open for other writers
+ * await pipe(source, shared, { closeTarget: false })
+ * ```
+ */
+export async function pipe<T extends NotUndefined>(
+    from: ReadableChannel<T>,
+    to: WritableChannel<T>,
+    options: PipeOptions = {},
+): Promise<void> {
+    const closeTarget = options.closeTarget ?? true
+    const { signal } = options
+
+    while (true) {
+        // `from` may have other readers, so no values are taken from it
+        // once `to` is closed
+        if (to.closed) {
+            return
+        }
+
+        let value: T | undefined
+
+        try {
+            const read = from.raceRead()
+            await read.wait(undefined, signal)
+
+            if (to.closed) {
+                read.passWakeup?.()
+                return
+            }
+
+            const result = read.attempt()
+
+            // Another reader took the value first
+            if (!result[0]) {
+                continue
+            }
+
+            value = result[1]
+        }
+        catch (error) {
+            if (closeTarget && !signal?.aborted) {
+                to.close(error)
+            }
+
+            throw error
+        }
+
+        if (value === undefined) {
+            if (closeTarget) {
+                to.close()
+            }
+
+            return
+        }
+
+        try {
+            await to.write(value, signal)
+        }
+        catch (error) {
+            if (error instanceof CannotWriteIntoClosedChannel) {
+                return
+            }
+
+            throw error
+        }
+    }
+}
@@ -0,0 +1,154 @@
+import { expect, test } from 'vitest'
+import { pipelineAsync } from './pipelineAsync.js'
+import { Channel } from './Channel.js'
+import { expectToBlock } from './_expectToBlock.js'
+
+interface Deferred<T> {
+    promise: Promise<T>
+    resolve: (value: T) => void
+    reject: (reason: unknown) => void
+}
+
+function defer<T>(): Deferred<T> {
+    let resolve!: (value: T) => void
+    let reject!: (reason: unknown) => void
+
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res
+        reject = rej
+    })
+
+    return { promise, resolve, reject }
+}
+
+/**
+ * Returns `fn` for pipelineAsync() whose calls are resolved manually
+ */
+function manualFn() {
+    const calls = new Map<number, Deferred<number>>()
+
+    const fn = (value: number) => {
+        const d = defer<number>()
+        calls.set(value, d)
+
+        return d.promise
+    }
+
+    return { fn, calls }
+}
+
+async function writeAndClose(ch: Channel<number>, values: number[]) {
+    for (const value of values) {
+        await ch.write(value)
+    }
+
+    ch.close()
+}
+
+test.for([true, false])(
+    'Runs at most `concurrency` calls at once (ordered=%s)',
+
+    async ordered => {
+        const source = new Channel<number>(0)
+        const { fn, calls } = manualFn()
+
+        const output = pipelineAsync(source, 2, fn, 0, { ordered })
+        const w = writeAndClose(source, [1, 2, 3])
+
+        await expectToBlock(w)
+        expect([...calls.keys()]).toEqual([1, 2])
+
+        // Once the result is written, the slot is freed for the next value
+        calls.get(1)!.resolve(10)
+        await expect(output.read()).resolves.toBe(10)
+
+        await w
+        expect([...calls.keys()]).toEqual([1, 2, 3])
+
+        calls.get(2)!.resolve(20)
+        calls.get(3)!.resolve(30)
+
+        await expect(output.read()).resolves.toBe(20)
+        await expect(output.read()).resolves.toBe(30)
+        await expect(output.read()).resolves.toBe(undefined)
+    }
+)
+
+test('ordered: results are written in the order of values', async () => {
+    const source = new Channel<number>(0)
+    const { fn, calls } = manualFn()
+
+    const output = pipelineAsync(source, 3, fn, 0, { ordered: true })
+    void writeAndClose(source, [1, 2, 3])
+
+    const r = output.read()
+    await expectToBlock(r)
+    expect(calls.size).toBe(3)
+
+    calls.get(3)!.resolve(30)
+    calls.get(2)!.resolve(20)
+    await expectToBlock(r)
+
+    calls.get(1)!.resolve(10)
+
+    await expect(r).resolves.toBe(10)
+    await expect(output.read()).resolves.toBe(20)
+    await expect(output.read()).resolves.toBe(30)
+    await expect(output.read()).resolves.toBe(undefined)
+})
+
+test('unordered: results are written as soon as they are ready', async () => {
+    const source = new Channel<number>(0)
+    const { fn, calls } = manualFn()
+
+    const output = pipelineAsync(source, 2, fn, 0, { ordered: false })
+    void writeAndClose(source, [1, 2])
+
+    const r = output.read()
+    await expectToBlock(r)
+
+    calls.get(2)!.resolve(20)
+    await expect(r).resolves.toBe(20)
+
+    calls.get(1)!.resolve(10)
+    await expect(output.read()).resolves.toBe(10)
+    await expect(output.read()).resolves.toBe(undefined)
+})
+
+test.for([true, false])(
+    'If fn rejects, closes the output with the error (ordered=%s)',
+
+    async ordered => {
+        const source = new Channel<number>(0)
+        const { fn, calls } = manualFn()
+        const error = new Error('Failed')
+
+        const output = pipelineAsync(source, 2, fn, 0, { ordered })
+        void writeAndClose(source, [1, 2])
+
+        const r = output.read()
+        await expectToBlock(r)
+
+        calls.get(2)!.reject(error)
+        await expect(r).rejects.toBe(error)
+    }
+)
+
+test.for([true, false])(
+    'If source is closed with an error, closes the output with the error (ordered=%s)',
+
+    async ordered => {
+        const source = new Channel<number>(0)
+        const error = new Error('Failed')
+
+        const output = pipelineAsync(source, 2, async x => x, 0, { ordered })
+
+        source.close(error)
+        await expect(output.read()).rejects.toBe(error)
+    }
+)
+
+test.for([0, 1.5])('concurrency must be an integer >= 1 (%s)', concurrency => {
+    expect(() => pipelineAsync(new Channel<number>(0), concurrency, async x => x, 0))
+        .toThrowError(concurrency.toString())
+})
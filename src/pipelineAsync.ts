@@ -0,0 +1,150 @@
+import type { NotUndefined, ReadableChannel, WritableChannel } from './channel-api.js'
+import { Channel } from './Channel.js'
+import { runIntoChannel } from './_runIntoChannel.js'
+
+export interface PipelineAsyncOptions {
+    /**
+     * If `true`, results are written into the returned channel in the order
+     * of values read from `source`, so a slow call of `fn` holds back results
+     * of faster calls made after it. If `false`, results are written as soon
+     * as they are ready
+     *
+     * Defaults to `true`
+     */
+    ordered?: boolean
+}
+
+/**
+ * Similar to `pipeline-async` in Clojure's `core.async`: reads values from
+ * `source`, applies async `fn` to them with up to `concurrency` calls running
+ * at once, and writes the results into the returned channel
+ *
+ * Replaces the common pattern of starting N workers that read from one
+ * channel and {@link merge}-ing their outputs
+ *
+ * Values are read from `source` only when there is a free slot for a call.
+ * A slot is occupied until the result is written into the returned channel,
+ * so backpressure of the returned channel propagates to `source`
+ *
+ * The returned channel closes once `source` closes and all results are
+ * written. If `source` is closed with an error, or `fn` throws, the returned
+ * channel is closed with that error right away. Results of calls that are
+ * still running are discarded
+ *
+ * @param concurrency Max number of concurrent calls of `fn`. Integer >= 1
+ *
+ * @param outputChannelCapacity Capacity of the buffer of the returned channel. 0
+ * would be a default choice
+ *
+ * @example
+ *
+ * ```ts
+ * // Fetch up to 5 URLs at once. Responses come in the order of URLs
+ * const responses = pipelineAsync(urls, 5, url => fetch(url), 0)
+ * ```
+ */
+export function pipelineAsync<T extends NotUndefined, R extends NotUndefined>(
+    source: ReadableChannel<T>,
+    concurrency: number,
+    fn: (value: T) => Promise<R>,
+    outputChannelCapacity: number,
+    options: PipelineAsyncOptions = {},
+): ReadableChannel<R> {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error(`concurrency must be an integer >= 1. Got: ${concurrency}`)
+    }
+
+    const ordered = options.ordered ?? true
+
+    return runIntoChannel<R>(outputChannelCapacity, async output => {
+        // Aborted once the pipeline completes or fails, to cancel blocked
+        // reads and writes
+        const controller = new AbortController()
+
+        try {
+            if (ordered) {
+                await runOrdered(output, controller.signal)
+            }
+            else {
+                await runUnordered(output, controller.signal)
+            }
+        }
+        finally {
+            controller.abort()
+        }
+    })
+
+    async function runUnordered(output: WritableChannel<R>, signal: AbortSignal) {
+        const workers = Array.from({ length: concurrency }, async () => {
+            while (true) {
+                const value = await source.read(signal)
+
+                if (value === undefined) {
+                    return
+                }
+
+                await output.write(await fn(value), signal)
+            }
+        })
+
+        await Promise.all(workers)
+    }
+
+    async function runOrdered(output: WritableChannel<R>, signal: AbortSignal) {
+        // Calls are queued in the order of values. The writer takes one
+        // call at a time from the queue, waits for it and writes its result.
+        // So with the queue capacity of `concurrency - 1`, there are at most
+        // `concurrency` calls at once
+        const calls = new Channel<Promise<R>>(concurrency - 1)
+
+        // Rejects once any call rejects, so the pipeline fails without 
+        // waiting for the calls queued before it
+        let fail!: (error: unknown) => void
+
+        const failure = new Promise<never>((_resolve, reject) => {
+            fail = reject
+        })
+
+        await Promise.race([
+            Promise.all([startCalls(), writeResults()]),
+            failure,
+        ])
+
+        async function startCalls() {
+            while (true) {
+                // Wait for the slot before reading, so values are not taken
+                // from `source` while there is no slot for them
+                await calls.waitUntilWritable(undefined, signal)
+
+                const value = await source.read(signal)
+
+                if (value === undefined) {
+                    calls.close()
+                    return
+                }
+
+                const call = fn(value)
+
+                // Also prevents unhandled rejection while the call is in 
+                // the queue
+                call.catch(fail)
+
+                // Always succeeds: only this function writes into `calls`,
+                // and there was a slot
+                calls.tryWrite(call)
+            }
+        }
+
+        async function writeResults() {
+            while (true) {
+                const call = await calls.read(signal)
+
+                if (call === undefined) {
+                    return
+                }
+
+                await output.write(await call, signal)
+            }
+        }
+    }
+}
@@ -0,0 +1,168 @@
+import { expect, test } from 'vitest'
+import { pub } from './pub.js'
+import { Channel } from './Channel.js'
+import { expectToBlock } from './_expectToBlock.js'
+
+interface Message {
+    topic: string
+    n: number
+}
+
+function message(topic: string, n: number): Message {
+    return { topic, n }
+}
+
+test('Subscribers receive only values of their topic', async () => {
+    const source = new Channel<Message>(10)
+    const p = pub(source, m => m.topic)
+
+    const a = p.subscribe('a', new Channel<Message>(10))
+    const b = p.subscribe('b', new Channel<Message>(10))
+
+    await source.write(message('a', 1))
+    await source.write(message('b', 2))
+    await source.write(message('c', 3))
+    await source.write(message('a', 4))
+    source.close()
+
+    await expect(a.read()).resolves.toEqual(message('a', 1))
+    await expect(a.read()).resolves.toEqual(message('a', 4))
+    await expect(a.read()).resolves.toBe(undefined)
+
+    await expect(b.read()).resolves.toEqual(message('b', 2))
+    await expect(b.read()).resolves.toBe(undefined)
+})
+
+test('unsubscribe() stops delivering values of the topic', async () => {
+    const source = new Channel<Message>(0)
+    const p = pub(source, m => m.topic)
+
+    const a1 = p.subscribe('a', new Channel<Message>(10))
+    const a2 = p.subscribe('a', new Channel<Message>(10))
+
+    p.unsubscribe('a', a2)
+
+    await source.write(message('a', 1))
+    await expect(a1.read()).resolves.toEqual(message('a', 1))
+
+    expect(a2.tryRead()).toBe(undefined)
+})
+
+test('Topic channel with non-blocking policy does not block the source', async () => {
+    const source = new Channel<Message>(0)
+
+    const p = pub(source, m => m.topic, {
+        topicChannel: topic => topic === 'slow'
+            ? { capacity: 1, bufferPolicy: 'dropping' }
+            : { capacity: 0 }
+    })
+
+    const slow = p.subscribe('slow', new Channel<Message>(0))
+    const fast = p.subscribe('fast', new Channel<Message>(0))
+
+    // Nobody reads `slow`, yet values of `fast` keep flowing
+    for (let i = 0; i < 3; ++i) {
+        await source.write(message('slow', i))
+    }
+
+    const w = source.write(message('fast', 3))
+    await expect(fast.read()).resolves.toEqual(message('fast', 3))
+    await w
+
+    // 0 was blocked on write into `slow`, 1 was buffered in the topic 
+    // channel, 2 was dropped
+    await expect(slow.read()).resolves.toEqual(message('slow', 0))
+    await expect(slow.read()).resolves.toEqual(message('slow', 1))
+    await expectToBlock(slow.read())
+})
+
+test('If topicFn throws, subscribers are closed with the error', async () => {
+    const source = new Channel<Message>(0)
+    const error = new Error('Unknown topic')
+
+    const p = pub(source, m => {
+        if (m.topic === 'bad') {
+            throw error
+        }
+
+        return m.topic
+    })
+
+    const a = p.subscribe('a', new Channel<Message>(0))
+
+    await source.write(message('bad', 1))
+    await expect(a.read()).rejects.toBe(error)
+})
+
+test('Topic is dropped once its last subscriber unsubscribes', async () => {
+    const source = new Channel<Message>(0)
+    const closedTopics: boolean[] = []
+
+    const p = pub(source, m => m.topic, {
+        topicChannel: () => {
+            const index = closedTopics.length
+            closedTopics.push(false)
+
+            return {
+                capacity: 0,
+                statsHook: s => { closedTopics[index] = s.closed },
+            }
+        }
+    })
+
+    const a1 = p.subscribe('a', new Channel<Message>(10))
+    const a2 = p.subscribe('a', new Channel<Message>(10))
+
+    p.unsubscribe('a', a1)
+    expect(closedTopics).toEqual([false])
+
+    p.unsubscribe('a', a2)
+    expect(closedTopics).toEqual([true])
+
+    // Values of the dropped topic are discarded. Writing the next value
+    // waits until pub is done with the previous one
+    await source.write(message('a', 1))
+    await source.write(message('b', 0))
+
+    // Subscribing again creates a new topic channel
+    const a3 = p.subscribe('a', new Channel<Message>(10))
+    expect(closedTopics).toEqual([true, false])
+
+    await source.write(message('a', 2))
+    await expect(a3.read()).resolves.toEqual(message('a', 2))
+
+    p.unsubscribeAll()
+    expect(closedTopics).toEqual([true, true])
+
+    expect(a1.tryRead()).toBe(undefined)
+    expect(a2.tryRead()).toBe(undefined)
+})
+
+test('Topic whose subscribers were closed by someone else is dropped', async () => {
+    const source = new Channel<Message>(0)
+    let topicChannelsCount = 0
+
+    const p = pub(source, m => m.topic, {
+        topicChannel: () => {
+            ++topicChannelsCount
+            return { capacity: 0 }
+        }
+    })
+
+    const a1 = p.subscribe('a', new Channel<Message>(0))
+    a1.close()
+
+    // Mult notices that `a1` is closed on this write
+    await source.write(message('a', 1))
+    await source.write(message('b', 0))
+
+    // pub notices that the topic has no subscribers on this write
+    await source.write(message('a', 2))
+    await source.write(message('b', 0))
+
+    const a2 = p.subscribe('a', new Channel<Message>(10))
+    expect(topicChannelsCount).toBe(2)
+
+    await source.write(message('a', 3))
+    await expect(a2.read()).resolves.toEqual(message('a', 3))
+})
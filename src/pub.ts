@@ -0,0 +1,220 @@
+import { CannotWriteIntoClosedChannel, type NotUndefined, type ReadableChannel, type WritableChannel } from './channel-api.js'
+import { Channel, type ChannelOptions } from './Channel.js'
+import { mult, type Mult, type TapOptions } from './mult.js'
+
+/**
+ * Publication of a channel, returned by {@link pub}. Values are routed to
+ * subscribers by topic
+ */
+export interface Pub<T extends NotUndefined, K> {
+    /**
+     * Starts writing values of `topic` into `channel`. The channel receives
+     * every value of the topic read from the source after this call
+     *
+     * Returns `channel` for convenience. See {@link Mult.tap} for details
+     */
+    subscribe: <C extends WritableChannel<T>>(
+        topic: K,
+        channel: C,
+        options?: TapOptions
+    ) => C
+
+    /**
+     * Stops writing values of `topic` into `channel`. See {@link Mult.untap}
+     * for details
+     */
+    unsubscribe: (topic: K, channel: WritableChannel<T>) => void
+
+    /**
+     * Unsubscribes all channels from `topic`. If `topic` is `undefined`,
+     * unsubscribes all channels from all topics
+     */
+    unsubscribeAll: (topic?: K) => void
+}
+
+export interface PubOptions<K> {
+    /**
+     * Each topic has an internal channel that buffers values of the topic
+     * until they are written into all subscribers. Use this function to
+     * configure the channel for each topic
+     *
+     * By default, the channels are unbuffered, so a slow subscriber of any
+     * topic slows down reading from the source. Buffered channels reduce
+     * that, and non-blocking {@link BufferPolicy} makes slow topics miss
+     * values instead
+     */
+    topicChannel?: (topic: K) => TopicChannelOptions
+}
+
+export interface TopicChannelOptions extends ChannelOptions {
+    /**
+     * See `capacity` parameter of {@link Channel} constructor
+     */
+    capacity: number
+}
+
+/**
+ * Similar to `pub`/`sub` in Clojure's `core.async`: reads values from
+ * `source`, computes topic of each value with `topicFn`, and writes
+ * the value into all channels subscribed to the topic. Use {@link Pub.subscribe}
+ * to subscribe
+ *
+ * Topics are compared as `Map` keys. Values of topics without subscribers are
+ * discarded
+ *
+ * Topic channel (see {@link PubOptions.topicChannel}) is created on the first
+ * subscription to the topic. Once the last subscriber unsubscribes, the topic
+ * channel is closed and dropped, so topics can be created dynamically (e.g.
+ * per user) without leaking memory. Values buffered in the dropped topic
+ * channel are discarded. Subscribers closed by someone else are noticed once
+ * the next value of their topic is read
+ *
+ * Each topic is a {@link mult} of the topic channel, so the same backpressure
+ * rules apply: subscribers that block on writes slow down the topic, while
+ * subscribers that never block miss values instead. See also
+ * {@link PubOptions.topicChannel}
+ *
+ * Once `source` closes, subscribed channels are closed (unless
+ * {@link TapOptions.close} is `false`). If `source` is closed with an error,
+ * or `topicFn` throws, subscribed channels are closed with that error
+ *
+ * @example
+ *
+ * ```ts
+ * const p = pub(events, e => e.type)
+ *
+ * const clicks = p.subscribe('click', new Channel<Event>(0))
+ * const keys = p.subscribe('keydown', new Channel<Event>(10, { bufferPolicy: 'dropping' }))
+ * ```
+ */
+export function pub<T extends NotUndefined, K>(
+    source: ReadableChannel<T>,
+    topicFn: (value: T) => K,
+    options: PubOptions<K> = {},
+): Pub<T, K> {
+    const topics = new Map<K, Topic<T>>()
+
+    // Set once `source` is closed. Subscriptions made after that are closed
+    // right away
+    let sourceResult: { error: unknown } | null = null
+
+    void main()
+
+    return {
+        subscribe(topic, channel, tapOptions = {}) {
+            if (sourceResult !== null) {
+                if (tapOptions.close ?? true) {
+                    channel.close(sourceResult.error)
+                }
+
+                return channel
+            }
+
+            return getOrCreateTopic(topic).mult.tap(channel, tapOptions)
+        },
+
+        unsubscribe(topic, channel) {
+            const t = topics.get(topic)
+
+            if (t === undefined) {
+                return
+            }
+
+            t.mult.untap(channel)
+            dropTopicIfUnused(topic, t)
+        },
+
+        unsubscribeAll(topic) {
+            if (topic !== undefined) {
+                const t = topics.get(topic)
+
+                if (t !== undefined) {
+                    t.mult.untapAll()
+                    dropTopicIfUnused(topic, t)
+                }
+
+                return
+            }
+
+            for (const [key, t] of topics) {
+                t.mult.untapAll()
+                dropTopicIfUnused(key, t)
+            }
+        },
+    }
+
+    /**
+     * Closes and drops topic without subscribers. Returns whether the topic
+     * was dropped
+     */
+    function dropTopicIfUnused(key: K, topic: Topic<T>): boolean {
+        if (topic.mult.tapsCount > 0) {
+            return false
+        }
+
+        topics.delete(key)
+        topic.channel.close()
+
+        return true
+    }
+
+    function getOrCreateTopic(key: K): Topic<T> {
+        const existing = topics.get(key)
+
+        if (existing !== undefined) {
+            return existing
+        }
+
+        const { capacity, ...channelOptions } = options.topicChannel?.(key) ?? {
+            capacity: 0
+        }
+
+        const channel = new Channel<T>(capacity, channelOptions)
+        const topic = { channel, mult: mult(channel) }
+
+        topics.set(key, topic)
+        return topic
+    }
+
+    async function main() {
+        let error: unknown = undefined
+
+        try {
+            for await (const value of source) {
+                const key = topicFn(value)
+                const topic = topics.get(key)
+
+                // Mult untaps subscribers closed by someone else, so the topic
+                // might have no subscribers left
+                if (topic === undefined || dropTopicIfUnused(key, topic)) {
+                    continue
+                }
+
+                try {
+                    await topic.channel.write(value)
+                }
+                catch (e) {
+                    // The topic was dropped while the write was blocked
+                    if (!(e instanceof CannotWriteIntoClosedChannel)) {
+                        throw e
+                    }
+                }
+            }
+        }
+        catch (e) {
+            error = e
+        }
+
+        sourceResult = { error }
+
+        // Mults close subscribed channels once topic channels are closed
+        for (const topic of topics.values()) {
+            topic.channel.close(error)
+        }
+    }
+}
+
+interface Topic<T extends NotUndefined> {
+    channel: Channel<T>
+    mult: Mult<T>
+}
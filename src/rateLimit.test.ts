@@ -0,0 +1,146 @@
+import { expect, test } from 'vitest'
+import { Channel } from './Channel.js'
+import { ManualClock } from './clock.js'
+import { debounce, sample, throttle } from './rateLimit.js'
+import { expectToBlock } from './_expectToBlock.js'
+
+// Source channels are unbuffered, so `await source.write()` returns only
+// once the value is read by the operator
+
+test('debounce() passes through the last value once ms elapse without new values', async () => {
+    const clock = new ManualClock()
+
+    const source = new Channel<number>(0)
+    const output = debounce(source, 1000, 10, { clock })
+
+    await source.write(1)
+    await clock.advance(600)
+
+    await source.write(2)
+    await clock.advance(600)
+
+    const readPromise = output.read()
+    await expectToBlock(readPromise)
+
+    await clock.advance(400)
+    expect(await readPromise).toBe(2)
+})
+
+test('debounce() passes through the pending value once source closes', async () => {
+    const clock = new ManualClock()
+
+    const source = new Channel<number>(0)
+    const output = debounce(source, 1000, 10, { clock })
+
+    await source.write(1)
+    source.close()
+
+    expect(await output.read()).toBe(1)
+    expect(await output.read()).toBe(undefined)
+})
+
+test('debounce() closes the returned channel with the error of source', async () => {
+    const source = new Channel<number>(0)
+    const output = debounce(source, 1000, 10)
+
+    const error = new Error('Test')
+    source.close(error)
+
+    await expect(output.read()).rejects.toBe(error)
+})
+
+test('throttle() passes through the first value of each period by default', async () => {
+    const clock = new ManualClock()
+
+    const source = new Channel<number>(0)
+    const output = throttle(source, 1000, 10, { clock })
+
+    await source.write(1)
+    expect(await output.read()).toBe(1)
+
+    await source.write(2)
+    await source.write(3)
+    await clock.advance(1000)
+
+    await source.write(4)
+    expect(await output.read()).toBe(4)
+})
+
+test('throttle() with trailing passes through the last value of the period once it ends', async () => {
+    const clock = new ManualClock()
+
+    const source = new Channel<number>(0)
+    const output = throttle(source, 1000, 10, { leading: false, trailing: true, clock })
+
+    await source.write(1)
+    await source.write(2)
+
+    const readPromise = output.read()
+    await expectToBlock(readPromise)
+
+    await clock.advance(1000)
+    expect(await readPromise).toBe(2)
+})
+
+test('throttle() with leading and trailing passes through both ends of the period', async () => {
+    const clock = new ManualClock()
+
+    const source = new Channel<number>(0)
+    const output = throttle(source, 1000, 10, { trailing: true, clock })
+
+    await source.write(1)
+    expect(await output.read()).toBe(1)
+
+    await source.write(2)
+    await source.write(3)
+    await clock.advance(1000)
+
+    expect(await output.read()).toBe(3)
+
+    // Trailing value has started a new period
+    await source.write(4)
+    await source.write(5)
+    source.close()
+
+    expect(await output.read()).toBe(5)
+    expect(await output.read()).toBe(undefined)
+})
+
+test('throttle() throws if both leading and trailing are false', () => {
+    const source = new Channel<number>(0)
+
+    expect(() => throttle(source, 1000, 0, { leading: false })).toThrow()
+})
+
+test('sample() passes through the latest value on each tick, if there was a new one', async () => {
+    const source = new Channel<number>(0)
+    const ticker = new Channel<number>(0)
+    const output = sample(source, ticker, 10)
+
+    await source.write(1)
+    await source.write(2)
+    await ticker.write(0)
+
+    expect(await output.read()).toBe(2)
+
+    await ticker.write(0)
+
+    const readPromise = output.read()
+    await expectToBlock(readPromise)
+
+    await source.write(3)
+    await ticker.write(0)
+
+    expect(await readPromise).toBe(3)
+})
+
+test('sample() closes the returned channel once ticker closes', async () => {
+    const source = new Channel<number>(0)
+    const ticker = new Channel<number>(0)
+    const output = sample(source, ticker, 10)
+
+    await source.write(1)
+    ticker.close()
+
+    expect(await output.read()).toBe(undefined)
+})
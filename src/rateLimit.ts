@@ -0,0 +1,258 @@
+import type { NotUndefined, ReadableChannel, SelectablePromise } from './channel-api.js'
+import { realClock, type ClockOptions } from './clock.js'
+import { raceAbortSignal, raceNever, raceTimeout, select } from './select.js'
+import { assertIsMs } from './_assertIsMs.js'
+import { makeTimeoutSignal } from './_makeTimeoutSignal.js'
+import { runIntoChannel } from './_runIntoChannel.js'
+
+// Operators that limit the rate of values. Discarded values do not wait for
+// a slot in the returned channel, only the values that are passed through do.
+// `source` is not read while they wait, so backpressure of the returned channel
+// still propagates to `source`
+//
+// Common semantics:
+//
+// - Once `source` closes, the returned channel closes. If `source` is closed
+// with an error, the returned channel is closed with that error. Values not
+// yet passed through are discarded in that case
+//
+// - `outputChannelCapacity` is capacity of the buffer of the returned
+// channel. 0 would be a default choice
+
+export interface ThrottleOptions extends ClockOptions {
+    /**
+     * Whether to pass through the value that starts the throttle period.
+     * Defaults to `true`
+     */
+    leading?: boolean
+
+    /**
+     * Whether to pass through the last value read during the throttle period
+     * once the period ends. Passing it through starts a new period. Defaults
+     * to `false`
+     */
+    trailing?: boolean
+}
+
+/**
+ * Passes through a value only after `ms` elapse without new values. Each new
+ * value replaces the previous one and restarts the timer
+ *
+ * Once `source` closes, the last value (if it was not passed through yet) is
+ * passed through before closing
+ *
+ * @param ms Must be >= 0
+ *
+ * @example
+ *
+ * ```ts
+ * // Rebuild once there were no file changes for 300ms
+ * for await (const _ of debounce(fileChanges, 300, 0)) {
+ *  await rebuild()
+ * }
+ * ```
+ */
+export function debounce<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    ms: number,
+    outputChannelCapacity: number,
+    options: ClockOptions = {},
+): ReadableChannel<T> {
+    assertIsMs(ms)
+
+    return runIntoChannel<T>(outputChannelCapacity, async output => {
+        let pending: { value: T } | null = null
+
+        while (true) {
+            const elapsed: SelectablePromise<void> = pending !== null
+                ? raceTimeout(ms, options)
+                : raceNever
+
+            const winner = await select({ value: source.raceRead(), elapsed })
+
+            switch (winner.type) {
+                case 'value': {
+                    if (winner.value === undefined) {
+                        // source has closed
+                        if (pending !== null) {
+                            await output.write(pending.value)
+                        }
+
+                        return
+                    }
+
+                    pending = { value: winner.value }
+                    continue
+                }
+
+                case 'elapsed': {
+                    const { value } = pending!
+                    pending = null
+
+                    await output.write(value)
+                    continue
+                }
+            }
+        }
+    })
+}
+
+/**
+ * Passes through at most one value per `ms`. A value read while there is
+ * no throttle period starts the period. Values read during the period are
+ * discarded, except for the last one if {@link ThrottleOptions.trailing} is
+ * `true`
+ *
+ * If `trailing` is `true`, once `source` closes, the last value of the
+ * current period is passed through before closing
+ *
+ * At least one of `leading` and `trailing` must be `true`
+ *
+ * @param ms Must be >= 0
+ *
+ * @example
+ *
+ * ```ts
+ * // Handle at most one scroll event per 100ms, including the last one
+ * const scrolls = throttle(scrollEvents, 100, 0, { trailing: true })
+ * ```
+ */
+export function throttle<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    ms: number,
+    outputChannelCapacity: number,
+    options: ThrottleOptions = {},
+): ReadableChannel<T> {
+    assertIsMs(ms)
+
+    const { leading = true, trailing = false, clock = realClock } = options
+
+    if (!leading && !trailing) {
+        throw new Error('At least one of leading and trailing must be true')
+    }
+
+    return runIntoChannel<T>(outputChannelCapacity, async output => {
+        let period: [AbortSignal, () => void] | null = null
+        let pending: { value: T } | null = null
+
+        try {
+            while (true) {
+                const winner = await select({
+                    value: source.raceRead(),
+                    periodEnd: period !== null ? raceAbortSignal(period[0]) : raceNever,
+                })
+
+                switch (winner.type) {
+                    case 'value': {
+                        if (winner.value === undefined) {
+                            // source has closed
+                            if (pending !== null) {
+                                await output.write(pending.value)
+                            }
+
+                            return
+                        }
+
+                        if (period !== null) {
+                            if (trailing) {
+                                pending = { value: winner.value }
+                            }
+
+                            continue
+                        }
+
+                        period = makeTimeoutSignal(ms, clock)
+
+                        if (leading) {
+                            await output.write(winner.value)
+                        }
+                        else {
+                            pending = { value: winner.value }
+                        }
+
+                        continue
+                    }
+
+                    case 'periodEnd': {
+                        period = null
+
+                        if (pending === null) {
+                            continue
+                        }
+
+                        const { value } = pending
+                        pending = null
+
+                        period = makeTimeoutSignal(ms, clock)
+                        await output.write(value)
+
+                        continue
+                    }
+                }
+            }
+        }
+        finally {
+            period?.[1]()
+        }
+    })
+}
+
+/**
+ * Each time `ticker` yields a value, passes through the latest value of
+ * `source`. If there were no new values of `source` since the previous tick,
+ * nothing is passed through
+ *
+ * Neither `source` nor `ticker` is read while a write into the returned
+ * channel is blocked
+ *
+ * The returned channel closes once either `source` or `ticker` closes. If any
+ * of them is closed with an error, the returned channel is closed with that
+ * error
+ *
+ * @example
+ *
+ * ```ts
+ * // Render the latest state at most on every animation frame
+ * const states = sample(stateChanges, animationFrames, 0)
+ * ```
+ */
+export function sample<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    ticker: ReadableChannel<NotUndefined>,
+    outputChannelCapacity: number,
+): ReadableChannel<T> {
+    return runIntoChannel<T>(outputChannelCapacity, async output => {
+        let latest: { value: T } | null = null
+
+        while (true) {
+            const winner = await select({
+                value: source.raceRead(),
+                tick: ticker.raceRead(),
+            })
+
+            // source or ticker has closed
+            if (winner.value === undefined) {
+                return
+            }
+
+            switch (winner.type) {
+                case 'value': {
+                    latest = { value: winner.value }
+                    continue
+                }
+
+                case 'tick': {
+                    if (latest === null) {
+                        continue
+                    }
+
+                    const { value } = latest
+                    latest = null
+
+                    await output.write(value)
+                    continue
+                }
+            }
+        }
+    })
+}
@@ -0,0 +1,94 @@
+import { bench, describe } from 'vitest'
+import { Channel } from './Channel.js'
+import type { SelectablePromise } from './channel-api.js'
+import { raceTimeout, select, type SelectArgsLike, type SelectResult } from './select.js'
+import { shuffle } from './_fisherYatesShuffle.js'
+
+// Compares select() with a copy of its implementation before the fast path
+// was added. Run with `pnpm bench`
+
+const ITERATIONS = 1000
+
+describe('Selecting from channels with buffered values', () => {
+    bench('select()', async () => {
+        await readAll(select)
+    })
+
+    bench('select() without fast path', async () => {
+        await readAll(selectWithoutFastPath)
+    })
+})
+
+describe('Selecting from a channel with buffered values or timeout', () => {
+    bench('select()', async () => {
+        await readAllOrTimeout(select)
+    })
+
+    bench('select() without fast path', async () => {
+        await readAllOrTimeout(selectWithoutFastPath)
+    })
+})
+
+type SelectFn = <TArgs extends SelectArgsLike>(args: TArgs) => Promise<SelectResult<TArgs>>
+
+async function readAll(selectFn: SelectFn) {
+    const a = new Channel<number>(ITERATIONS)
+    const b = new Channel<number>(ITERATIONS)
+
+    for (let i = 0; i < ITERATIONS; ++i) {
+        a.tryWrite(i)
+        b.tryWrite(i)
+    }
+
+    for (let i = 0; i < ITERATIONS; ++i) {
+        await selectFn({ a: a.raceRead(), b: b.raceRead() })
+    }
+}
+
+async function readAllOrTimeout(selectFn: SelectFn) {
+    const ch = new Channel<number>(ITERATIONS)
+
+    for (let i = 0; i < ITERATIONS; ++i) {
+        ch.tryWrite(i)
+    }
+
+    for (let i = 0; i < ITERATIONS; ++i) {
+        await selectFn({ value: ch.raceRead(), timedOut: raceTimeout(1000) })
+    }
+}
+
+async function selectWithoutFastPath<TArgs extends SelectArgsLike>(
+    args: TArgs
+): Promise<SelectResult<TArgs>> {
+    const c = new AbortController()
+
+    const promises = Object.entries(args).map((typeAndP) => {
+        const [_, p] = typeAndP
+        return p.wait(typeAndP, c.signal)
+    })
+
+    try {
+        while (true) {
+            shuffle(promises)
+
+            const [winner, index] = await Promise.race(
+                promises.map((p, index) => p.then(r => [r, index] as const))
+            )
+
+            const [type, p] = winner as [string, SelectablePromise<unknown>]
+            const maybeResult = p.attempt()
+
+            if (maybeResult[0]) {
+                return {
+                    type,
+                    value: maybeResult[1],
+                } as SelectResult<TArgs>
+            }
+
+            promises[index] = p.wait(winner, c.signal)
+        }
+    }
+    finally {
+        c.abort()
+    }
+}
@@ -1,8 +1,10 @@
 import { afterEach, describe, expect, test, vi } from 'vitest'
 import { Channel } from './Channel.js'
-import { raceAbortSignal, raceNever, raceTimeout, select } from './select.js'
+import { CannotWriteIntoClosedChannel } from './channel-api.js'
+import { raceAbortSignal, raceAll, raceAsync, raceNever, racePromise, raceTimeout, select, selectArray, trySelect } from './select.js'
 import { expectToBlock } from './_expectToBlock.js'
 import { abortListenersCount } from './_abortListenersCount.js'
+import { mapReadableChannel } from './mapping.js'
 
 test('Selecting reads and writes', async () => {
     // When selecting multiple reads and writes:
@@ -105,6 +107,32 @@ test(
     }
 )
 
+test('If an operation can be performed right away, select() does not start any waits', async () => {
+    const ch = new Channel<number>(1)
+    await ch.write(1)
+
+    const wait = vi.fn()
+
+    const result = await select({
+        value: ch.raceRead(),
+        other: { wait, attempt: () => [false] },
+    })
+
+    expect(result).toStrictEqual({ type: 'value', value: 1 })
+    expect(wait).not.toHaveBeenCalled()
+})
+
+test('If read channel is closed with an error, select() rejects with it', async () => {
+    const ch = new Channel(0)
+    const error = new Error('Producer failed')
+
+    const s = select({ ch: ch.raceRead(), never: raceNever })
+    await expectToBlock(s)
+
+    ch.close(error)
+    await expect(s).rejects.toBe(error)
+})
+
 test('select() correctly infers result type with raceNever', async () => {
     const ch = new Channel<number>(0)
 
@@ -125,6 +153,347 @@ test('select() correctly infers result type with raceNever', async () => {
 
 function assertIsSubtype<_T extends S, S>() {}
 
+describe('Priority mode', () => {
+    test('If multiple operations are ready, the one declared first wins', async () => {
+        for (let i = 0; i < 20; ++i) {
+            const control = new Channel<string>(1)
+            const data = new Channel<number>(1)
+
+            control.tryWrite('stop')
+            data.tryWrite(1)
+
+            const result = await select(
+                { control: control.raceRead(), data: data.raceRead() },
+                { priority: true },
+            )
+
+            expect(result).toStrictEqual({ type: 'control', value: 'stop' })
+        }
+    })
+
+    test('After waking up, operations declared before the winner are attempted first', async () => {
+        const control = new Channel<string>(1)
+        const data = new Channel<number>(1)
+
+        const s = select(
+            { control: control.raceRead(), data: data.raceRead() },
+            { priority: true },
+        )
+
+        await expectToBlock(s)
+
+        data.tryWrite(1)
+        control.tryWrite('stop')
+
+        await expect(s).resolves.toStrictEqual({ type: 'control', value: 'stop' })
+        expect(data.tryRead()).toBe(1)
+    })
+
+    test('Works with trySelect() and selectArray()', async () => {
+        const a = new Channel<number>(1)
+        const b = new Channel<number>(1)
+
+        a.tryWrite(1)
+        b.tryWrite(2)
+
+        expect(trySelect({ b: b.raceRead(), a: a.raceRead() }, { priority: true }))
+            .toStrictEqual({ type: 'b', value: 2 })
+
+        expect(await selectArray([a.raceRead(), b.raceWrite(3)], { priority: true }))
+            .toStrictEqual({ index: 0, value: 1 })
+    })
+
+    test('Does not leave other selects blocked when an earlier operation wins', async () => {
+        const ctrl = new Channel<number>(1)
+        const data = new Channel<number>(1)
+
+        const s1 = select({ c: ctrl.raceRead(), d: data.raceRead() }, { priority: true })
+        const s2 = select({ d: data.raceRead() })
+
+        ctrl.tryWrite(1)
+        data.tryWrite(2)
+
+        await expect(s1).resolves.toStrictEqual({ type: 'c', value: 1 })
+        await expect(s2).resolves.toStrictEqual({ type: 'd', value: 2 })
+    })
+})
+
+describe('selectArray()', () => {
+    test('Resolves with index and value of the operation that won', async () => {
+        const channels = [new Channel<number>(0), new Channel<number>(0), new Channel<number>(0)]
+
+        const s = selectArray(channels.map(ch => ch.raceRead()))
+        await expectToBlock(s)
+
+        await channels[1]!.write(42)
+        await expect(s).resolves.toStrictEqual({ index: 1, value: 42 })
+
+        // Other channels are left intact
+        await expectToBlock(channels[0]!.write(1))
+        await expectToBlock(channels[2]!.write(1))
+    })
+
+    test('Infers union of index and value types for tuples', () => {
+        const a = new Channel<number>(0)
+        const b = new Channel<string>(0)
+
+        function example() {
+            return selectArray([a.raceRead(), b.raceWrite('x')])
+        }
+
+        type Actual = Awaited<ReturnType<typeof example>>
+
+        type Expected =
+            | { index: 0, value: number | undefined }
+            | { index: 1, value: void }
+
+        assertIsSubtype<Actual, Expected>()
+        assertIsSubtype<Expected, Actual>()
+    })
+
+    test('Infers number index for arrays', () => {
+        const channels: Channel<number>[] = []
+
+        function example() {
+            return selectArray(channels.map(ch => ch.raceRead()))
+        }
+
+        type Actual = Awaited<ReturnType<typeof example>>
+        type Expected = { index: number, value: number | undefined }
+
+        assertIsSubtype<Actual, Expected>()
+        assertIsSubtype<Expected, Actual>()
+    })
+})
+
+describe('racePromise() and raceAsync()', () => {
+    test('Resolve with fulfilled result', async () => {
+        const result = await select({ done: racePromise(Promise.resolve(42)) })
+        expect(result).toStrictEqual({ type: 'done', value: { status: 'fulfilled', value: 42 } })
+    })
+
+    test('Resolve with rejected result, instead of rejecting select()', async () => {
+        const error = new Error('Failed')
+        const result = await select({ done: racePromise(Promise.reject(error)) })
+
+        expect(result).toStrictEqual({ type: 'done', value: { status: 'rejected', reason: error } })
+    })
+
+    test('Can be reused across select() calls without losing the result', async () => {
+        const ch = new Channel<number>(0)
+        let resolve!: (value: string) => void
+        const done = racePromise(new Promise<string>(r => resolve = r))
+
+        const s1 = select({ done, value: ch.raceRead() })
+        await expectToBlock(s1)
+
+        await ch.write(1)
+        expect(await s1).toStrictEqual({ type: 'value', value: 1 })
+
+        resolve('ok')
+
+        const expected = { type: 'done', value: { status: 'fulfilled', value: 'ok' } }
+
+        expect(await select({ done, value: ch.raceRead() })).toStrictEqual(expected)
+        expect(await select({ done, value: ch.raceRead() })).toStrictEqual(expected)
+    })
+
+    test('raceAsync() calls fn once, on first use', async () => {
+        const fn = vi.fn(() => Promise.resolve(1))
+        const done = raceAsync(fn)
+
+        expect(fn).not.toHaveBeenCalled()
+
+        await select({ done })
+        await select({ done })
+
+        expect(fn).toHaveBeenCalledTimes(1)
+    })
+
+    test('raceAsync() canAttempt() does not call fn', () => {
+        const fn = vi.fn(() => Promise.resolve(1))
+        const done = raceAsync(fn)
+
+        expect(done.canAttempt!()).toBe(false)
+        expect(fn).not.toHaveBeenCalled()
+    })
+
+    test('raceAsync() treats sync throw of fn as rejection', async () => {
+        const error = new Error('Failed')
+
+        const result = await select({
+            done: raceAsync(() => { throw error }),
+        })
+
+        expect(result).toStrictEqual({ type: 'done', value: { status: 'rejected', reason: error } })
+    })
+})
+
+describe('raceAll()', () => {
+    test('Performs all operations at once, only when all can be performed', async () => {
+        const audit = new Channel<number>(1)
+        const queue = new Channel<number>(0)
+
+        const s = select({ wrote: raceAll([audit.raceWrite(1), queue.raceWrite(1)]) })
+        await expectToBlock(s)
+
+        // audit has free space, but nothing is written into it while
+        // queue has no reader
+        expect(audit.tryRead()).toBe(undefined)
+
+        const read = queue.read()
+
+        await expect(s).resolves.toStrictEqual({ type: 'wrote', value: [undefined, undefined] })
+        expect(await read).toBe(1)
+        expect(audit.tryRead()).toBe(1)
+    })
+
+    test('Performs none of operations if some cannot be performed', async () => {
+        const a = new Channel<number>(1)
+        const b = new Channel<number>(1)
+
+        await b.write(0)
+
+        const result = await select({
+            wrote: raceAll([a.raceWrite(1), b.raceWrite(1)]),
+            timedOut: raceTimeout(0),
+        })
+
+        expect(result.type).toBe('timedOut')
+        expect(a.tryRead()).toBe(undefined)
+    })
+
+    test('Resolves with results of all operations', async () => {
+        const a = new Channel<number>(1)
+        const b = new Channel<string>(1)
+
+        await a.write(1)
+        await b.write('x')
+
+        const result = await select({ both: raceAll([a.raceRead(), b.raceRead()]) })
+        expect(result).toStrictEqual({ type: 'both', value: [1, 'x'] })
+
+        type Actual = typeof result.value
+        type Expected = [number | undefined, string | undefined]
+
+        assertIsSubtype<Actual, Expected>()
+        assertIsSubtype<Expected, Actual>()
+    })
+
+    test('Throws before performing any operation if some would throw', async () => {
+        const a = new Channel<number>(1)
+        const b = new Channel<number>(1)
+
+        b.close()
+
+        await expect(select({ wrote: raceAll([a.raceWrite(1), b.raceWrite(1)]) }))
+            .rejects.toThrow(CannotWriteIntoClosedChannel)
+
+        expect(a.tryRead()).toBe(undefined)
+    })
+
+    test('Throws if some operation does not implement canAttempt()', () => {
+        expect(() => raceAll([{ wait: async v => v, attempt: () => [false] }])).toThrow()
+    })
+
+    test('Throws if operations are on the same channel', () => {
+        const ch = new Channel<number>(1)
+
+        expect(() => raceAll([ch.raceWrite(1), ch.raceWrite(2)])).toThrow()
+        expect(() => raceAll([ch.raceRead(), mapReadableChannel(ch, String).raceRead()])).toThrow()
+    })
+
+    test('Does not keep concurrent selects blocked while waiting for other operations', async () => {
+        const ch = new Channel<number>(1)
+        const full = new Channel<number>(1)
+
+        await full.write(0)
+
+        const both = select({ both: raceAll([ch.raceRead(), full.raceWrite(1)]) })
+        const plain = select({ value: ch.raceRead() })
+
+        ch.tryWrite(1)
+
+        await expect(plain).resolves.toStrictEqual({ type: 'value', value: 1 })
+        await expectToBlock(both)
+
+        ch.tryWrite(2)
+        full.tryRead()
+
+        await expect(both).resolves.toStrictEqual({ type: 'both', value: [2, undefined] })
+    })
+
+    test('Passes the wakeup on if declined after all waits have resolved', async () => {
+        const a = new Channel<number>(1)
+        const b = new Channel<number>(1)
+
+        const both = select({ both: raceAll([a.raceRead(), b.raceRead()]) })
+        const plain = select({ value: b.raceRead() })
+
+        a.tryWrite(1)
+        b.tryWrite(2)
+
+        // `a` is emptied before `both` attempts, so `b` is left for `plain`
+        a.tryRead()
+
+        await expect(plain).resolves.toStrictEqual({ type: 'value', value: 2 })
+        await expectToBlock(both)
+    })
+})
+
+describe('trySelect()', () => {
+    test('Performs an operation that is ready', async () => {
+        const empty = new Channel<number>(0)
+        const full = new Channel<number>(1)
+        await full.write(1)
+
+        const result = trySelect({
+            a: empty.raceRead(),
+            b: full.raceRead(),
+            c: full.raceWrite(2),
+        })
+
+        expect(result).toStrictEqual({ type: 'b', value: 1 })
+        expect(full.tryRead()).toBe(undefined)
+    })
+
+    test('Returns default result if no operation is ready, without performing any', async () => {
+        const ch = new Channel<number>(0)
+
+        const result = trySelect({ value: ch.raceRead(), wrote: ch.raceWrite(1) })
+        expect(result).toStrictEqual({ type: 'default', value: undefined })
+
+        await expectToBlock(ch.read())
+    })
+
+    test('Throws if a read channel is closed with an error', () => {
+        const ch = new Channel<number>(0)
+        const error = new Error('Producer failed')
+
+        ch.close(error)
+        expect(() => trySelect({ value: ch.raceRead() })).toThrow(error)
+    })
+
+    test('Throws if args have default key', () => {
+        const ch = new Channel<number>(0)
+        expect(() => trySelect({ default: ch.raceRead() })).toThrow()
+    })
+
+    test('Infers result type', () => {
+        const ch = new Channel<number>(0)
+        const result = trySelect({ value: ch.raceRead() })
+
+        type Actual = typeof result
+
+        type Expected =
+            | { type: 'value', value: number | undefined }
+            | { type: 'default', value: undefined }
+
+        assertIsSubtype<Actual, Expected>()
+        assertIsSubtype<Expected, Actual>()
+    })
+})
+
 describe('raceTimeout() never leaves a timer running after select() completes', () => {
     // Do not fake setImmediate, used by expectToBlock()
     const useFakeSetTimeout = () => vi.useFakeTimers({ 
@@ -1,9 +1,26 @@
 import { shuffle } from './_fisherYatesShuffle.js'
 import { AbortablePromise } from './AbortablePromise.js'
 import type { SelectablePromise } from './channel-api.js'
+import { realClock, type ClockOptions } from './clock.js'
+import { makeAbortSignal } from './_makeAbortSignal.js'
+import { getOperationTarget } from './_operationTarget.js'
 
 export type SelectArgsLike = Record<string, SelectablePromise<unknown>>
 
+export interface SelectOptions {
+    /**
+     * If `true`, when multiple operations can be performed, the one declared
+     * first wins, like `:priority true` of `alts!` in Clojure's `core.async`.
+     * Useful to prefer e.g. a cancellation channel over data channels
+     *
+     * Note that this makes the selection unfair: if an operation declared
+     * first is always ready, others are never performed
+     *
+     * Defaults to `false`: one of the operations is selected at random
+     */
+    priority?: boolean
+}
+
 export interface SelectResultLike {
     type: PropertyKey
     value: unknown
@@ -35,6 +52,10 @@ type InferSelectablePromiseType<T> =
  * try to perform read on two non-empty channels), one operation is selected
  * at random
  * 
+ * If some operation can be performed right away, `select()` performs it
+ * without waiting for anything, so selecting in a loop from channels with
+ * buffered values is cheap
+ * 
  * Example: read from `a: ReadableChannel<number>` or `b: ReadableChannel<boolean>`, 
  * whichever is readable first:
  * 
@@ -71,36 +92,125 @@ type InferSelectablePromiseType<T> =
  * ```
  * 
  * Also see {@link raceTimeout}, {@link raceAbortSignal}, {@link raceNever}
+ * 
+ * ### Priority
+ * 
+ * To select operations in the order of declaration instead of at random,
+ * pass `{ priority: true }`. See {@link SelectOptions.priority}
  */
 export async function select<TArgs extends SelectArgsLike>(
-    args: TArgs
+    args: TArgs,
+    options: SelectOptions = {},
 ): Promise<SelectResult<TArgs>> {
+    const [type, value] = await selectEntries(Object.entries(args), options)
+    return { type, value } as SelectResult<TArgs>
+}
+
+export type SelectArrayResult<TCases extends readonly SelectablePromise<unknown>[]> =
+    number extends TCases['length']
+        ? {
+            index: number
+            value: InferSelectablePromiseType<TCases[number]>
+        }
+        : ({
+            [I in keyof TCases]: {
+                index: I extends `${infer N extends number}` ? N : never
+                value: InferSelectablePromiseType<TCases[I]>
+            }
+        })[number]
+
+/**
+ * Same as {@link select}, but takes operations as an array and returns
+ * the index of the operation that won the race. Useful when the number
+ * of operations is not known statically
+ *
+ * For tuples, result type is a union of `{ index, value }` for each index.
+ * For arrays, `index` is `number`
+ *
+ * @example
+ *
+ * Read from whichever of `workers` has a result first:
+ *
+ * ```ts
+ * const { index, value } = await selectArray(workers.map(w => w.raceRead()))
+ * ```
+ */
+export async function selectArray<const TCases extends readonly SelectablePromise<unknown>[]>(
+    cases: TCases,
+    options: SelectOptions = {},
+): Promise<SelectArrayResult<TCases>> {
+    const [index, value] = await selectEntries(Array.from(cases.entries()), options)
+    return { index, value } as SelectArrayResult<TCases>
+}
+
+type SelectEntry<K> = [K, SelectablePromise<unknown>]
+
+/**
+ * Implementation of {@link select}, generic over keys of the operations.
+ * Resolves with `[key, value]` of the operation that won
+ */
+async function selectEntries<K>(
+    entries: SelectEntry<K>[],
+    options: SelectOptions,
+): Promise<[K, unknown]> {
+    const priority = options.priority ?? false
+
+    // Fast path: if some operation can be performed right away, return
+    // without starting any waits (which may add listeners, timers, etc.)
+    const immediateResult = priority
+        ? attemptInOrder(entries)
+        : attemptInRandomOrder(entries)
+
+    if (immediateResult !== null) {
+        return immediateResult
+    }
+
     const c = new AbortController()
 
-    const promises = Object.entries(args).map((typeAndP) => {
-        const [_, p] = typeAndP
-        return p.wait(typeAndP, c.signal)
+    const promises = entries.map((entry) => {
+        const [_, p] = entry
+        return p.wait(entry, c.signal)
     })
+
+    // Entries whose waits have resolved. Each may have taken the only wakeup
+    // of its channel (see `SelectablePromise.passWakeup()`)
+    const woken = new Set<SelectEntry<K>>()
     
     try {
         while (true) {
-            shuffle(promises)
+            if (!priority) {
+                shuffle(promises)
+            }
     
             const [winner, index] = await Promise.race(
-                promises.map((p, index) => p.then(r => [r, index] as const))
+                promises.map((p, index) => p.then(r => {
+                    woken.add(r)
+                    return [r, index] as const
+                }))
             )
+
+            // In priority mode, operations declared before the winner 
+            // might have become ready too, so all are attempted
+            const result = priority
+                ? attemptInOrder(entries)
+                : attemptInOrder([winner])
     
-            const [type, p] = winner
-            const maybeResult = p.attempt()
-    
-            if (maybeResult[0]) {
-                //@ts-expect-error
-                return {  
-                    type,
-                    value: maybeResult[1],
+            if (result !== null) {
+                // Operations that were woken up but not performed pass their
+                // wakeups on, so other waiters of their channels are not left
+                // blocked. E.g. in priority mode, an earlier operation may be
+                // performed instead of the winner
+                for (const [key, p] of woken) {
+                    if (key !== result[0]) {
+                        p.passWakeup?.()
+                    }
                 }
+
+                return result
             }
     
+            const [_, p] = winner
+            woken.delete(winner)
             promises[index] = p.wait(winner, c.signal)
         }
     }
@@ -109,6 +219,85 @@ export async function select<TArgs extends SelectArgsLike>(
     }
 }
 
+/**
+ * Result of {@link trySelect} when none of the operations can be performed
+ * immediately
+ */
+export interface DefaultSelectResult {
+    type: 'default'
+    value: undefined
+}
+
+/**
+ * Non-blocking version of {@link select}, similar to `select {}` with
+ * `default:` case in Go
+ *
+ * Synchronously tries to perform each operation, in random order (or in
+ * the order of declaration, see {@link SelectOptions.priority}). Returns
+ * the result of the first one that succeeds. If none can be performed
+ * immediately, returns `{ type: 'default', value: undefined }`
+ *
+ * `args` must not have `default` key, as it would be ambiguous with
+ * the default result
+ *
+ * @example
+ *
+ * ```ts
+ * const result = trySelect({ value: ch.raceRead(), wrote: other.raceWrite(42) })
+ *
+ * switch (result.type) {
+ *  case 'value': // ...
+ *  case 'wrote': // ...
+ *  case 'default': // Neither was ready
+ * }
+ * ```
+ */
+export function trySelect<TArgs extends SelectArgsLike>(
+    args: TArgs,
+    options: SelectOptions = {},
+): SelectResult<TArgs> | DefaultSelectResult {
+    if (Object.hasOwn(args, 'default')) {
+        throw new Error('trySelect() args must not have `default` key')
+    }
+
+    const entries = Object.entries(args)
+
+    const result = options.priority
+        ? attemptInOrder(entries)
+        : attemptInRandomOrder(entries)
+
+    if (result !== null) {
+        const [type, value] = result
+        return { type, value } as SelectResult<TArgs>
+    }
+
+    return { type: 'default', value: undefined }
+}
+
+/**
+ * Shuffles `entries` in place and calls {@link attemptInOrder} on them
+ */
+function attemptInRandomOrder<K>(entries: SelectEntry<K>[]): [K, unknown] | null {
+    shuffle(entries)
+    return attemptInOrder(entries)
+}
+
+/**
+ * Calls `attempt()` on each of `entries` until one succeeds. Returns 
+ * `[key, value]` of the operation that succeeded, or `null` if none did
+ */
+function attemptInOrder<K>(entries: SelectEntry<K>[]): [K, unknown] | null {
+    for (const [key, p] of entries) {
+        const maybeResult = p.attempt()
+
+        if (maybeResult[0]) {
+            return [key, maybeResult[1]]
+        }
+    }
+
+    return null
+}
+
 /**
  * Returns a {@link SelectablePromise} that resolves once the passed signal aborts.
  * Meant to be used with {@link select}, to cancel reads/writes to channels
@@ -169,6 +358,10 @@ export function raceAbortSignal(signal: AbortSignal): SelectablePromise<unknown>
 
             return [false]
         },
+
+        canAttempt() {
+            return signal.aborted
+        },
     }
 }
 
@@ -211,6 +404,10 @@ export const raceNever: SelectablePromise<never> = {
     attempt() {
         return [false]
     },
+
+    canAttempt() {
+        return false
+    },
 }
 
 /**
@@ -225,60 +422,273 @@ export const raceNever: SelectablePromise<never> = {
  * select({ wrote: ch.raceWrite(42), timedOut: raceTimeout(1000) })
  * ```
  */
-export function raceTimeout(ms: number): SelectablePromise<void> {
+export function raceTimeout(
+    ms: number,
+    options: ClockOptions = {},
+): SelectablePromise<void> {
+    const { clock = realClock } = options
     let elapsed = false
 
     return {
         wait(value, signal) {
             return new AbortablePromise(resolve => {
-                const handle = setTimeout(() => {
+                const handle = clock.setTimeout(() => {
                     elapsed = true
                     resolve(value)
                 }, ms)
 
-                return () => clearTimeout(handle)
+                return () => clock.clearTimeout(handle)
             }, signal)
         },
 
         attempt() {
             return elapsed ? [true, undefined] : [false]
         },
+
+        canAttempt() {
+            return elapsed
+        },
     }
 }
 
 /**
- * Experimental: use {@link select} with arbitrary async operations
- * that can be cancelled via `AbortSignal`:
- * 
+ * Use {@link select} with an arbitrary promise. Resolves once `promise`
+ * settles, with its outcome as `PromiseSettledResult`. So if `promise`
+ * rejects, `select()` does not reject, and the error can be handled like
+ * any other result
+ *
+ * The outcome is memoized, so the returned {@link SelectablePromise} can be
+ * reused across multiple `select()` calls. Once `promise` settles, every
+ * `select()` with it can complete right away
+ *
+ * @example
+ *
  * ```ts
- * select({
- *  didFetch: raceAsync(s => fetch('https://example.com', { signal: s })),
- *  didRead: channel.raceRead(),
+ * const response = racePromise(fetch('https://example.com'))
+ *
+ * while (true) {
+ *  const result = await select({ response, value: ch.raceRead() })
+ *
+ *  if (result.type === 'response') {
+ *      // result.value is PromiseSettledResult<Response>
+ *      break
+ *  }
+ *
+ *  // Process result.value, `fetch()` keeps running
+ * }
+ * ```
+ */
+export function racePromise<T>(
+    promise: PromiseLike<T>
+): SelectablePromise<PromiseSettledResult<T>> {
+    let result: PromiseSettledResult<T> | null = null
+    const waiters = new Set<() => void>()
+
+    Promise.resolve(promise).then(
+        value => settle({ status: 'fulfilled', value }),
+        (reason: unknown) => settle({ status: 'rejected', reason }),
+    )
+
+    function settle(r: PromiseSettledResult<T>) {
+        result = r
+
+        for (const resolve of waiters) {
+            resolve()
+        }
+
+        waiters.clear()
+    }
+
+    return {
+        wait(value, signal) {
+            return new AbortablePromise(resolve => {
+                if (result !== null) {
+                    resolve(value)
+                    return null
+                }
+
+                const waiter = () => resolve(value)
+                waiters.add(waiter)
+
+                return () => {
+                    waiters.delete(waiter)
+                }
+            }, signal)
+        },
+
+        attempt() {
+            return result !== null ? [true, result] : [false]
+        },
+
+        canAttempt() {
+            return result !== null
+        },
+    }
+}
+
+/**
+ * Same as {@link racePromise}, but calls `fn` to get the promise. `fn` is
+ * called once, when the returned {@link SelectablePromise} is first used by
+ * {@link select}. If `fn` throws, it is treated as a rejection
+ *
+ * Reusing the returned value across multiple `select()` calls does not call
+ * `fn` again
+ */
+export function raceAsync<T>(
+    fn: () => PromiseLike<T>
+): SelectablePromise<PromiseSettledResult<T>> {
+    let started: SelectablePromise<PromiseSettledResult<T>> | null = null
+
+    function start() {
+        started ??= racePromise(new Promise<T>(resolve => resolve(fn())))
+        return started
+    }
+
+    return {
+        wait(value, signal) {
+            return start().wait(value, signal)
+        },
+
+        attempt() {
+            return start().attempt()
+        },
+
+        canAttempt() {
+            // Must not have side effects, so `fn` is not started here
+            return started !== null && started.canAttempt!()
+        },
+    }
+}
+
+export type RaceAllResult<TOps extends readonly SelectablePromise<unknown>[]> = {
+    -readonly [I in keyof TOps]: InferSelectablePromiseType<TOps[I]>
+}
+
+/**
+ * Combines operations into one that is performed atomically: either all
+ * of them are performed at once, or none. Resolves with the array of their
+ * results
+ *
+ * The combination can be raced with {@link select} as any other operation.
+ * It waits until all operations can be performed at the same time. Until
+ * then, none of them is performed, so e.g. no value is written into one
+ * channel while another channel is full
+ *
+ * All operations must implement {@link SelectablePromise.canAttempt}.
+ * Built-in operations do. If an operation would throw (e.g. writing into
+ * a closed channel), the combination throws before performing any operation
+ *
+ * Operations must be performed on different channels, otherwise `raceAll()`
+ * throws. Readiness of each operation is checked separately, so e.g. two
+ * writes into a channel with one free slot would both look ready, while
+ * only one of them can be performed
+ *
+ * @example
+ *
+ * Write into both the audit log and the work queue, or time out:
+ *
+ * ```ts
+ * const result = await select({
+ *  wrote: raceAll([auditLog.raceWrite(job), queue.raceWrite(job)]),
+ *  timedOut: raceTimeout(1000),
  * })
  * ```
  */
-export function raceAsync<const T>(
-    fn: (signal?: AbortSignal) => Promise<T>
-): SelectablePromise<T> {
-    let result: T | typeof kNotDone = kNotDone
+export function raceAll<const TOps extends readonly SelectablePromise<unknown>[]>(
+    ops: TOps
+): SelectablePromise<RaceAllResult<TOps>> {
+    const targets = new Set<object>()
+
+    for (const op of ops) {
+        if (op.canAttempt === undefined) {
+            throw new Error('raceAll() requires all operations to implement canAttempt()')
+        }
+
+        const target = getOperationTarget(op)
+
+        if (target === undefined) {
+            continue
+        }
+
+        if (targets.has(target)) {
+            throw new Error('raceAll() requires all operations to be on different channels')
+        }
+
+        targets.add(target)
+    }
+
+    function canAttempt() {
+        return ops.every(op => op.canAttempt!())
+    }
+
+    // `wait()` of a ready operation may have taken the only wakeup of its
+    // channel. The operation is not performed until others are ready, so
+    // the wakeup is passed on, to not leave e.g. other readers blocked
+    function passWakeup() {
+        for (const op of ops) {
+            if (op.canAttempt!()) {
+                op.passWakeup?.()
+            }
+        }
+    }
 
     return {
         async wait(value, signal) {
-            result = await fn(signal)
+            // Cancels remaining waits once any wait rejects
+            const [allSignal, abortAll] = makeAbortSignal(signal)
+
+            try {
+                await Promise.all(ops.map(async op => {
+                    await op.wait(undefined, allSignal)
+
+                    if (!canAttemptOrThrows()) {
+                        op.passWakeup?.()
+                    }
+                }))
+            }
+            finally {
+                abortAll()
+            }
+
             return value
         },
 
         attempt() {
-            if (result === kNotDone) {
+            if (!canAttempt()) {
+                passWakeup()
                 return [false]
             }
 
-            return [true, result]
+            const results = ops.map(op => {
+                const maybeResult = op.attempt()
+
+                if (!maybeResult[0]) {
+                    throw new Error('Operation has failed, even though canAttempt() returned true')
+                }
+
+                return maybeResult[1]
+            })
+
+            return [true, results as RaceAllResult<TOps>]
         },
+
+        canAttempt,
+        passWakeup,
     }
-}
 
-const kNotDone = Symbol('kNotDone')
+    /**
+     * If some operation would throw, returns `true`, so `attempt()` is called
+     * and throws
+     */
+    function canAttemptOrThrows() {
+        try {
+            return canAttempt()
+        }
+        catch {
+            return true
+        }
+    }
+}
 
 /**
  * Type-level check that `value` is `never`. Useful for exhaustive
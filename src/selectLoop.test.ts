@@ -0,0 +1,120 @@
+import { expect, test } from 'vitest'
+import { Channel } from './Channel.js'
+import { raceNever } from './select.js'
+import { selectLoop, selectLoopBreak } from './selectLoop.js'
+import { expectToBlock } from './_expectToBlock.js'
+
+test('Calls handlers with values until all read channels close', async () => {
+    const numbers = new Channel<number>(10)
+    const strings = new Channel<string>(10)
+
+    await numbers.write(1)
+    await numbers.write(2)
+    await strings.write('a')
+
+    numbers.close()
+    strings.close()
+
+    const received: (number | string)[] = []
+
+    const result = await selectLoop(
+        { numbers, strings, never: raceNever },
+        {
+            numbers: n => { received.push(n) },
+            strings: s => { received.push(s) },
+            never: () => {},
+        },
+    )
+
+    expect(result).toBe('closed')
+    expect(received.sort()).toStrictEqual([1, 2, 'a'])
+})
+
+test('Stops once a handler returns selectLoopBreak', async () => {
+    const ch = new Channel<number>(10)
+
+    for (let i = 0; i < 5; ++i) {
+        await ch.write(i)
+    }
+
+    const received: number[] = []
+
+    const result = await selectLoop({ ch }, {
+        ch: value => {
+            received.push(value)
+            return value === 2 ? selectLoopBreak : undefined
+        },
+    })
+
+    expect(result).toBe('break')
+    expect(received).toStrictEqual([0, 1, 2])
+    expect(ch.tryRead()).toBe(3)
+})
+
+test('Stops once signal is aborted', async () => {
+    const ch = new Channel<number>(0)
+    const controller = new AbortController()
+
+    const loop = selectLoop({ ch }, { ch: () => {} }, { signal: controller.signal })
+    await expectToBlock(loop)
+
+    controller.abort()
+    await expect(loop).resolves.toBe('aborted')
+
+    // Read is cancelled
+    await expectToBlock(ch.write(1))
+})
+
+test('Cases returned by a function are re-evaluated on each iteration', async () => {
+    const input = new Channel<number>(10)
+    const output = new Channel<number>(10)
+
+    await input.write(1)
+    await input.write(2)
+    input.close()
+
+    let pending: number | null = null
+    const steps: string[] = []
+
+    const result = await selectLoop(
+        () => ({
+            value: pending === null && input,
+            wrote: pending !== null && output.raceWrite(pending),
+        }),
+        {
+            value: value => {
+                steps.push(`read ${value}`)
+                pending = value
+            },
+            wrote: () => {
+                steps.push(`wrote ${pending}`)
+                pending = null
+            },
+        },
+    )
+
+    expect(result).toBe('closed')
+    expect(steps).toStrictEqual(['read 1', 'wrote 1', 'read 2', 'wrote 2'])
+})
+
+test('Rejects if a read channel is closed with an error', async () => {
+    const ch = new Channel<number>(0)
+    const error = new Error('Producer failed')
+
+    ch.close(error)
+
+    await expect(selectLoop({ ch }, { ch: () => {} })).rejects.toBe(error)
+})
+
+test('Rejects if a handler throws', async () => {
+    const ch = new Channel<number>(1)
+    await ch.write(1)
+
+    const error = new Error('Handler failed')
+
+    await expect(selectLoop({ ch }, { ch: () => { throw error } })).rejects.toBe(error)
+})
+
+test('Throws if there are no enabled cases and no signal', async () => {
+    await expect(selectLoop({ a: false }, { a: () => {} })).rejects.toThrow()
+})
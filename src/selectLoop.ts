@@ -0,0 +1,177 @@
+import type { NotUndefined, ReadableChannel, SelectablePromise } from './channel-api.js'
+import { raceAbortSignal, selectArray, type SelectOptions } from './select.js'
+
+/**
+ * Return this from a handler of {@link selectLoop} to stop the loop
+ */
+export const selectLoopBreak: unique symbol = Symbol('selectLoopBreak')
+
+/**
+ * A case of {@link selectLoop}:
+ *
+ * - A readable channel: read from the channel. Once the channel closes, the
+ * case is disabled
+ *
+ * - A {@link SelectablePromise}: same as a case of {@link select}
+ *
+ * - `null`, `undefined` or `false`: the case is disabled
+ */
+export type SelectLoopCase =
+    | ReadableChannel<NotUndefined>
+    | SelectablePromise<unknown>
+    | null
+    | undefined
+    | false
+
+export type SelectLoopCasesLike = Record<string, SelectLoopCase>
+
+export type SelectLoopHandlers<TCases extends SelectLoopCasesLike> = {
+    [K in keyof TCases]: (
+        value: InferCaseType<TCases[K]>
+    ) => HandlerResult | Promise<HandlerResult>
+}
+
+type HandlerResult = void | typeof selectLoopBreak
+
+type InferCaseType<C> =
+    C extends ReadableChannel<infer T>
+        ? T
+    : C extends SelectablePromise<infer U>
+        ? U
+    : never
+
+export interface SelectLoopOptions extends SelectOptions {
+    /**
+     * Stops the loop once aborted. If a handler is running, the loop stops
+     * once it completes
+     */
+    signal?: AbortSignal
+}
+
+/**
+ * Why {@link selectLoop} has stopped:
+ *
+ * - `'break'`: a handler returned {@link selectLoopBreak}
+ * - `'aborted'`: {@link SelectLoopOptions.signal} was aborted
+ * - `'closed'`: all read channels among the cases have closed
+ */
+export type SelectLoopResult = 'break' | 'aborted' | 'closed'
+
+/**
+ * Runs {@link select} in a loop, calling the handler of the case that wins
+ * each time. Replaces the common `while (true) { select(); switch {} }`
+ * pattern
+ *
+ * `cases` can be a function: it is called before each iteration, so cases
+ * can be enabled or disabled dynamically. Note that a {@link SelectablePromise}
+ * passed directly (not via a function) is reused between iterations, which
+ * does not work for one-shot promises like {@link raceTimeout}. Read channels
+ * are fine, as `raceRead()` is called on each iteration
+ *
+ * Values of read channels are passed to the handlers. Once a read channel
+ * closes, its handler is not called, and the channel's case is disabled.
+ * Once all read channels among enabled cases are closed, the loop stops. If
+ * a read channel is closed with an error, the loop rejects with that error.
+ * The loop also rejects if a handler throws
+ *
+ * Handlers are awaited, so no new `select()` starts until the current handler
+ * completes
+ *
+ * Resolves with the reason why the loop has stopped. See {@link SelectLoopResult}
+ *
+ * @example
+ *
+ * ```ts
+ * let pending: Item | null = null
+ *
+ * const result = await selectLoop(
+ *  () => ({
+ *      item: pending === null && items,
+ *      wrote: pending !== null && output.raceWrite(pending),
+ *      tick: raceTimeout(1000),
+ *  }),
+ *  {
+ *      item: item => { pending = item },
+ *      wrote: () => { pending = null },
+ *      tick: () => isShuttingDown() ? selectLoopBreak : undefined,
+ *  },
+ *  { signal }
+ * )
+ * ```
+ */
+export async function selectLoop<TCases extends SelectLoopCasesLike>(
+    cases: TCases | (() => TCases),
+    handlers: SelectLoopHandlers<TCases>,
+    options: SelectLoopOptions = {},
+): Promise<SelectLoopResult> {
+    const { signal, ...selectOptions } = options
+    const closedChannels = new Set<ReadableChannel<NotUndefined>>()
+
+    while (true) {
+        if (signal?.aborted) {
+            return 'aborted'
+        }
+
+        const currentCases = typeof cases === 'function' ? cases() : cases
+
+        const keys: (keyof TCases)[] = []
+        const promises: SelectablePromise<unknown>[] = []
+
+        let hasChannels = false
+
+        for (const [key, c] of Object.entries(currentCases)) {
+            if (!c) {
+                continue
+            }
+
+            if (isReadableChannel(c)) {
+                hasChannels = true
+
+                if (closedChannels.has(c)) {
+                    continue
+                }
+            }
+
+            keys.push(key)
+            promises.push(isReadableChannel(c) ? c.raceRead() : c)
+        }
+
+        const allChannelsClosed = hasChannels && !keys.some(
+            key => isReadableChannel(currentCases[key])
+        )
+
+        if (allChannelsClosed) {
+            return 'closed'
+        }
+
+        if (promises.length === 0 && signal === undefined) {
+            throw new Error('selectLoop() has no enabled cases, so it would block forever')
+        }
+
+        // Abort goes first, so it wins in priority mode
+        const abortCases = signal !== undefined ? [raceAbortSignal(signal)] : []
+        const { index, value } = await selectArray([...abortCases, ...promises], selectOptions)
+
+        if (index < abortCases.length) {
+            return 'aborted'
+        }
+
+        const key = keys[index - abortCases.length]!
+        const c = currentCases[key]
+
+        if (isReadableChannel(c) && value === undefined) {
+            closedChannels.add(c)
+            continue
+        }
+
+        const handler = handlers[key] as (value: unknown) => HandlerResult | Promise<HandlerResult>
+
+        if (await handler(value) === selectLoopBreak) {
+            return 'break'
+        }
+    }
+}
+
+function isReadableChannel(c: SelectLoopCase): c is ReadableChannel<NotUndefined> {
+    return typeof c === 'object' && c !== null && 'raceRead' in c
+}
@@ -0,0 +1,60 @@
+import { expect, test } from 'vitest'
+import { split } from './split.js'
+import { Channel } from './Channel.js'
+import type { ReadableChannel } from './channel-api.js'
+import { expectToBlock } from './_expectToBlock.js'
+
+test('Routes values by predicate, then closes both channels', async () => {
+    const source = new Channel<number>(4)
+
+    for (const value of [1, 2, 3, 4]) {
+        await source.write(value)
+    }
+
+    source.close()
+
+    const [even, odd] = split(source, x => x % 2 === 0, [2, 2])
+
+    await expect(even.read()).resolves.toBe(2)
+    await expect(even.read()).resolves.toBe(4)
+    await expect(even.read()).resolves.toBe(undefined)
+
+    await expect(odd.read()).resolves.toBe(1)
+    await expect(odd.read()).resolves.toBe(3)
+    await expect(odd.read()).resolves.toBe(undefined)
+})
+
+test('Narrows types with type guard', () => {
+    const source = new Channel<number | string>(0)
+
+    const [strings, numbers]: [ReadableChannel<string>, ReadableChannel<number>] =
+        split(source, x => typeof x === 'string', [0, 0])
+
+    void strings
+    void numbers
+})
+
+test('Blocked write into one channel blocks reading from source', async () => {
+    const source = new Channel<number>(0)
+    const [matching, nonMatching] = split(source, x => x > 0, [0, 0])
+
+    await source.write(1)
+
+    const w = source.write(-1)
+    await expectToBlock(w)
+
+    await expect(matching.read()).resolves.toBe(1)
+    await w
+    await expect(nonMatching.read()).resolves.toBe(-1)
+})
+
+test('If source is closed with an error, closes both channels with it', async () => {
+    const source = new Channel<number>(0)
+    const error = new Error('Producer failed')
+
+    const [matching, nonMatching] = split(source, x => x > 0, [0, 0])
+    source.close(error)
+
+    await expect(matching.read()).rejects.toBe(error)
+    await expect(nonMatching.read()).rejects.toBe(error)
+})
@@ -0,0 +1,67 @@
+import type { NotUndefined, ReadableChannel } from './channel-api.js'
+import { Channel } from './Channel.js'
+
+/**
+ * Similar to `split` in Clojure's `core.async`: reads values from `source`
+ * and routes them into two channels. Returns `[matching, nonMatching]`,
+ * where `matching` gets values for which `predicate` returns `true`, and
+ * `nonMatching` gets the rest
+ *
+ * Next value is read from `source` only after the previous one is written,
+ * so backpressure of both returned channels propagates to `source`. Note 
+ * that this means a slow reader of one channel slows down the other one
+ * too. Use buffered channels to reduce that
+ *
+ * Once `source` closes, both returned channels close. If `source` is closed
+ * with an error, or `predicate` throws, both returned channels are closed 
+ * with that error
+ *
+ * @param outputChannelCapacities Capacities of the buffers of `matching`
+ * and `nonMatching` channels. `[0, 0]` would be a default choice
+ *
+ * @example
+ *
+ * ```ts
+ * const [errors, successes] = split(results, r => r instanceof Error, [0, 0])
+ * ```
+ */
+export function split<T extends NotUndefined, S extends T>(
+    source: ReadableChannel<T>,
+    predicate: (value: T) => value is S,
+    outputChannelCapacities: [number, number],
+): [ReadableChannel<S>, ReadableChannel<Exclude<T, S>>]
+
+export function split<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    predicate: (value: T) => boolean,
+    outputChannelCapacities: [number, number],
+): [ReadableChannel<T>, ReadableChannel<T>]
+
+export function split<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    predicate: (value: T) => boolean,
+    outputChannelCapacities: [number, number],
+): [ReadableChannel<T>, ReadableChannel<T>] {
+    const matching = new Channel<T>(outputChannelCapacities[0])
+    const nonMatching = new Channel<T>(outputChannelCapacities[1])
+
+    void main()
+    return [matching, nonMatching]
+
+    async function main() {
+        try {
+            for await (const value of source) {
+                const output = predicate(value) ? matching : nonMatching
+                await output.write(value)
+            }
+        }
+        catch (error) {
+            matching.close(error)
+            nonMatching.close(error)
+            return
+        }
+
+        matching.close()
+        nonMatching.close()
+    }
+}
@@ -0,0 +1,118 @@
+import { expect, test } from 'vitest'
+import { ManualClock, type Clock } from './clock.js'
+import { after, ticker } from './ticker.js'
+import { expectToBlock } from './_expectToBlock.js'
+
+test('ticker() delivers Date.now() every ms', async () => {
+    const clock = new ManualClock()
+
+    const controller = new AbortController()
+    const ticks = ticker(1000, { signal: controller.signal, clock })
+    const start = clock.now()
+
+    const readPromise = ticks.read()
+    await expectToBlock(readPromise)
+
+    await clock.advance(1000)
+    expect(await readPromise).toBe(start + 1000)
+
+    await clock.advance(1000)
+    expect(await ticks.read()).toBe(start + 2000)
+
+    controller.abort()
+})
+
+test('ticker() drops ticks if the reader is slow', async () => {
+    const clock = new ManualClock()
+
+    const controller = new AbortController()
+    const ticks = ticker(1000, { signal: controller.signal, clock })
+    const start = clock.now()
+
+    await clock.advance(3000)
+    expect(await ticks.read()).toBe(start + 1000)
+
+    const readPromise = ticks.read()
+    await expectToBlock(readPromise)
+
+    await clock.advance(1000)
+    expect(await readPromise).toBe(start + 4000)
+
+    controller.abort()
+})
+
+test('ticker() does not drift if the timer fires late', async () => {
+    const manualClock = new ManualClock()
+
+    // Each timer fires 300ms late
+    const clock: Clock = {
+        now: () => manualClock.now(),
+        setTimeout: (callback, ms) => manualClock.setTimeout(callback, ms + 300),
+        clearTimeout: handle => manualClock.clearTimeout(handle),
+    }
+
+    const controller = new AbortController()
+    const ticks = ticker(1000, { signal: controller.signal, clock })
+    const start = clock.now()
+
+    await manualClock.advance(1300)
+    expect(await ticks.read()).toBe(start + 1300)
+
+    await manualClock.advance(1000)
+    expect(await ticks.read()).toBe(start + 2300)
+
+    await manualClock.advance(1000)
+    expect(await ticks.read()).toBe(start + 3300)
+
+    controller.abort()
+})
+
+test('ticker() stops and closes the channel once signal is aborted', async () => {
+    const clock = new ManualClock()
+
+    const controller = new AbortController()
+    const ticks = ticker(1000, { signal: controller.signal, clock })
+
+    controller.abort()
+
+    expect(await ticks.read()).toBe(undefined)
+    expect(clock.pendingTimersCount).toBe(0)
+})
+
+test('ticker() returns closed channel if signal is already aborted', async () => {
+    const ticks = ticker(1000, { signal: AbortSignal.abort() })
+    expect(await ticks.read()).toBe(undefined)
+})
+
+test('ticker() throws on invalid ms', () => {
+    for (const ms of [0, -1, Infinity, NaN]) {
+        expect(() => ticker(ms)).toThrow()
+    }
+})
+
+test('after() delivers a single value and closes', async () => {
+    const clock = new ManualClock()
+
+    const channel = after(1000, { clock })
+    const start = clock.now()
+
+    const readPromise = channel.read()
+    await expectToBlock(readPromise)
+
+    await clock.advance(1000)
+
+    expect(await readPromise).toBe(start + 1000)
+    expect(await channel.read()).toBe(undefined)
+})
+
+test('after() closes the channel without a value once signal is aborted', async () => {
+    const clock = new ManualClock()
+
+    const controller = new AbortController()
+    const channel = after(1000, { signal: controller.signal, clock })
+
+    controller.abort()
+
+    expect(await channel.read()).toBe(undefined)
+    expect(clock.pendingTimersCount).toBe(0)
+})
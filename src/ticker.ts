@@ -0,0 +1,120 @@
+import type { ReadableChannel } from './channel-api.js'
+import { Channel } from './Channel.js'
+import { realClock, type Clock, type ClockOptions } from './clock.js'
+import { assertIsMs } from './_assertIsMs.js'
+
+export interface TimerOptions extends ClockOptions {
+    /**
+     * Stops the timer once aborted. The returned channel is closed without
+     * an error
+     */
+    signal?: AbortSignal
+}
+
+/**
+ * Similar to `time.Ticker` in Go: returns a channel that receives a tick
+ * every `ms`. Value of each tick is the time of the tick, like `Date.now()`
+ *
+ * The channel buffers one tick. If the reader is slow and the buffer is
+ * full, new ticks are dropped, so the reader does not get a burst of stale
+ * ticks once it catches up
+ *
+ * The ticker runs until `options.signal` is aborted, so make sure to abort
+ * it once the ticker is not needed
+ *
+ * @param ms Must be a finite number > 0
+ *
+ * @example
+ *
+ * ```ts
+ * const controller = new AbortController()
+ *
+ * for await (const _ of ticker(1000, { signal: controller.signal })) {
+ *  await poll()
+ * }
+ * ```
+ */
+export function ticker(ms: number, options: TimerOptions = {}): ReadableChannel<number> {
+    if (!Number.isFinite(ms) || ms <= 0) {
+        throw new Error(`ms must be a finite number > 0. Got: ${ms}`)
+    }
+
+    const { signal, clock = realClock } = options
+    const ticks = new Channel<number>(1, { bufferPolicy: 'dropping' })
+
+    runTimer(ticks, signal, clock, ms, true, () => {
+        ticks.tryWrite(clock.now())
+    })
+
+    return ticks
+}
+
+/**
+ * Similar to `time.After` in Go: returns a channel that receives the current
+ * time (like `Date.now()`) once `ms` elapse and then closes
+ *
+ * Unlike {@link raceTimeout}, the result is a channel, so it can be read
+ * multiple times, iterated and passed to operators
+ *
+ * @param ms Must be >= 0
+ */
+export function after(ms: number, options: TimerOptions = {}): ReadableChannel<number> {
+    assertIsMs(ms)
+
+    const { signal, clock = realClock } = options
+    const channel = new Channel<number>(1)
+
+    runTimer(channel, signal, clock, ms, false, () => {
+        channel.tryWrite(clock.now())
+        channel.close()
+    })
+
+    return channel
+}
+
+/**
+ * Calls `onElapsed` after `ms`, and then every `ms` if `repeat` is `true`.
+ * Repeated calls happen at `start + n * ms`, so the timer does not drift.
+ * Once `signal` is aborted, stops and closes `channel`
+ */
+function runTimer(
+    channel: Channel<number>,
+    signal: AbortSignal | undefined,
+    clock: Clock,
+    ms: number,
+    repeat: boolean,
+    onElapsed: () => void,
+) {
+    if (signal?.aborted) {
+        channel.close()
+        return
+    }
+
+    // Ticks are scheduled relative to the start, not to the previous tick,
+    // so delays of timer callbacks do not add up
+    const start = clock.now()
+    let ticksCount = 1
+
+    let handle = clock.setTimeout(function elapsed() {
+        onElapsed()
+
+        if (repeat) {
+            // If the callback is late by more than `ms`, missed ticks are
+            // skipped, same as ticks the reader is too slow for
+            const elapsedTicks = Math.floor((clock.now() - start) / ms)
+            ticksCount = Math.max(ticksCount, elapsedTicks) + 1
+
+            handle = clock.setTimeout(elapsed, start + ticksCount * ms - clock.now())
+            return
+        }
+
+        signal?.removeEventListener('abort', onAbort)
+    }, ms)
+
+    function onAbort() {
+        clock.clearTimeout(handle)
+        channel.close()
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+}
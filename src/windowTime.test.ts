@@ -0,0 +1,129 @@
+import { expect, test } from 'vitest'
+import { Channel } from './Channel.js'
+import { ManualClock } from './clock.js'
+import { windowTime, windowTimeReduce } from './windowTime.js'
+import { expectToBlock } from './_expectToBlock.js'
+
+// Source channels are unbuffered, so `await source.write()` returns only
+// once the value is read by the window operator
+
+test('Tumbling windows are written once they end, including empty ones', async () => {
+    const clock = new ManualClock()
+
+    const source = new Channel<number>(0)
+    const windows = windowTime(source, { sizeMs: 1000, clock }, 10)
+
+    await source.write(1)
+    await source.write(2)
+
+    const readPromise = windows.read()
+    await expectToBlock(readPromise)
+
+    await clock.advance(1000)
+    expect(await readPromise).toStrictEqual([1, 2])
+
+    await source.write(3)
+
+    await clock.advance(1000)
+    expect(await windows.read()).toStrictEqual([3])
+
+    await clock.advance(1000)
+    expect(await windows.read()).toStrictEqual([])
+})
+
+test('Sliding windows overlap', async () => {
+    const clock = new ManualClock()
+
+    const source = new Channel<number>(0)
+    const windows = windowTime(source, { sizeMs: 2000, slideMs: 1000, clock }, 10)
+
+    await source.write(1)
+    await clock.advance(1000)
+
+    await source.write(2)
+    await clock.advance(1000)
+
+    expect(await windows.read()).toStrictEqual([1, 2])
+
+    await source.write(3)
+    await clock.advance(1000)
+
+    expect(await windows.read()).toStrictEqual([2, 3])
+})
+
+test('Values read between windows are discarded when slideMs > sizeMs', async () => {
+    const clock = new ManualClock()
+
+    const source = new Channel<number>(0)
+    const windows = windowTime(source, { sizeMs: 500, slideMs: 1000, clock }, 10)
+
+    await source.write(1)
+    await clock.advance(500)
+
+    expect(await windows.read()).toStrictEqual([1])
+
+    await source.write(2)
+    await clock.advance(500)
+
+    await source.write(3)
+    await clock.advance(500)
+
+    expect(await windows.read()).toStrictEqual([3])
+})
+
+test('Once source closes, open windows are written early and the returned channel closes', async () => {
+    const clock = new ManualClock()
+
+    const source = new Channel<number>(0)
+    const windows = windowTime(source, { sizeMs: 2000, slideMs: 1000, clock }, 10)
+
+    await source.write(1)
+    await clock.advance(1000)
+
+    await source.write(2)
+    source.close()
+
+    expect(await windows.read()).toStrictEqual([1, 2])
+    expect(await windows.read()).toStrictEqual([2])
+    expect(await windows.read()).toBe(undefined)
+})
+
+test('If source is closed with an error, the returned channel is closed with that error', async () => {
+    const source = new Channel<number>(0)
+    const windows = windowTime(source, { sizeMs: 1000 }, 10)
+
+    const error = new Error('Test')
+    source.close(error)
+
+    await expect(windows.read()).rejects.toBe(error)
+})
+
+test('windowTimeReduce() writes aggregate of each window', async () => {
+    const clock = new ManualClock()
+
+    const source = new Channel<number>(0)
+    const sums = windowTimeReduce(source, { sizeMs: 1000, clock }, (sum, x) => sum + x, 0, 10)
+
+    await source.write(1)
+    await source.write(2)
+    await clock.advance(1000)
+
+    expect(await sums.read()).toBe(3)
+
+    await clock.advance(1000)
+    expect(await sums.read()).toBe(0)
+})
+
+test('Throws on invalid sizeMs or slideMs', () => {
+    const source = new Channel<number>(0)
+
+    for (const options of [
+        { sizeMs: 0 },
+        { sizeMs: -1 },
+        { sizeMs: Infinity },
+        { sizeMs: 1000, slideMs: 0 },
+        { sizeMs: 1000, slideMs: NaN },
+    ]) {
+        expect(() => windowTime(source, options, 0)).toThrow()
+    }
+})
@@ -0,0 +1,200 @@
+import type { NotUndefined, ReadableChannel, WritableChannel } from './channel-api.js'
+import { realClock, type ClockOptions } from './clock.js'
+import { raceTimeout, select } from './select.js'
+import { runIntoChannel } from './_runIntoChannel.js'
+
+export interface WindowTimeOptions extends ClockOptions {
+    /**
+     * Duration of each window. Must be > 0
+     */
+    sizeMs: number
+
+    /**
+     * Interval between starts of consecutive windows. Must be > 0. Defaults
+     * to {@link WindowTimeOptions.sizeMs}
+     *
+     * - If equal to `sizeMs`, windows are *tumbling*: each value belongs to
+     * exactly one window
+     *
+     * - If less than `sizeMs`, windows are *sliding*: they overlap, and each
+     * value belongs to multiple windows
+     *
+     * - If greater than `sizeMs`, there are gaps between windows. Values read
+     * during the gaps are discarded
+     */
+    slideMs?: number
+}
+
+/**
+ * Groups values of `source` by time windows. Windows start at fixed
+ * intervals from the call, regardless of when values arrive. Each window
+ * is written into the returned channel as an array once it ends
+ *
+ * Windows without values are written too, as empty arrays
+ *
+ * Once `source` closes, windows that are still open are written early,
+ * and the returned channel closes. If `source` is closed with an error,
+ * the returned channel is closed with that error instead
+ *
+ * Backpressure of the returned channel does not slow down the windows:
+ * windows that end while a write is blocked are written once it unblocks
+ *
+ * @param outputChannelCapacity Capacity of the buffer of the returned channel. 0
+ * would be a default choice
+ *
+ * @example
+ *
+ * ```ts
+ * // Every second, get values of the last 5 seconds
+ * const windows = windowTime(values, { sizeMs: 5000, slideMs: 1000 }, 0)
+ * ```
+ */
+export function windowTime<T extends NotUndefined>(
+    source: ReadableChannel<T>,
+    options: WindowTimeOptions,
+    outputChannelCapacity: number,
+): ReadableChannel<T[]> {
+    return runWindows<T, T[]>(
+        source,
+        options,
+        (values, value) => {
+            values.push(value)
+            return values
+        },
+        () => [],
+        outputChannelCapacity,
+    )
+}
+
+/**
+ * Like {@link windowTime}, but instead of collecting values of each window
+ * in an array, aggregates them with `reducer`, like `Array.prototype.reduce()`.
+ * Each window starts with `initial`, and its aggregate is written once it ends
+ *
+ * Memory used by each window does not grow with the number of values, so
+ * this is preferred for large windows
+ *
+ * `initial` is shared by all windows, so `reducer` should not mutate it
+ *
+ * @example
+ *
+ * ```ts
+ * // Count of requests per minute
+ * const counts = windowTimeReduce(requests, { sizeMs: 60_000 }, n => n + 1, 0, 0)
+ * ```
+ */
+export function windowTimeReduce<T extends NotUndefined, A>(
+    source: ReadableChannel<T>,
+    options: WindowTimeOptions,
+    reducer: (accumulator: A, value: T) => A,
+    initial: A,
+    outputChannelCapacity: number,
+): ReadableChannel<A & NotUndefined> {
+    // See the comment in `scan()` on why `A` is not constrained
+    return runWindows(source, options, reducer, () => initial, outputChannelCapacity)
+}
+
+function runWindows<T extends NotUndefined, A>(
+    source: ReadableChannel<T>,
+    options: WindowTimeOptions,
+    reducer: (accumulator: A, value: T) => A,
+    makeInitial: () => A,
+    outputChannelCapacity: number,
+): ReadableChannel<A & NotUndefined> {
+    const { sizeMs, slideMs = sizeMs, clock = realClock } = options
+
+    assertIsPositiveMs(sizeMs, 'sizeMs')
+    assertIsPositiveMs(slideMs, 'slideMs')
+
+    return runIntoChannel<A & NotUndefined>(outputChannelCapacity, async output => {
+        const startedAt = clock.now()
+
+        // Ordered by `end`, as windows have the same size
+        const openWindows: OpenWindow<A>[] = []
+        let nextWindowIndex = 0
+
+        while (true) {
+            const now = await advance()
+            const nextWindowStart = nextWindowIndex * slideMs
+            const nextWindowEnd = openWindows[0]?.end ?? Infinity
+
+            const winner = await select({
+                value: source.raceRead(),
+                tick: raceTimeout(Math.min(nextWindowStart, nextWindowEnd) - now, { clock }),
+            })
+
+            if (winner.type === 'tick') {
+                continue
+            }
+
+            if (winner.value === undefined) {
+                // source has closed
+                for (const window of openWindows) {
+                    await writeWindow(output, window)
+                }
+
+                return
+            }
+
+            // Time has passed while waiting, so windows may need to be opened
+            // or closed before the value is added
+            await advance()
+
+            for (const window of openWindows) {
+                window.accumulator = reducer(window.accumulator, winner.value)
+            }
+        }
+
+        /**
+         * Opens windows that have started and writes windows that have
+         * ended. Returns the current time relative to `startedAt`
+         */
+        async function advance(): Promise<number> {
+            while (true) {
+                const now = clock.now() - startedAt
+
+                if (nextWindowIndex * slideMs <= now) {
+                    const start = nextWindowIndex * slideMs
+                    openWindows.push({ end: start + sizeMs, accumulator: makeInitial() })
+
+                    ++nextWindowIndex
+                    continue
+                }
+
+                const first = openWindows[0]
+
+                if (first !== undefined && first.end <= now) {
+                    openWindows.shift()
+                    await writeWindow(output, first)
+
+                    continue
+                }
+
+                return now
+            }
+        }
+    })
+}
+
+async function writeWindow<A>(
+    output: WritableChannel<A & NotUndefined>,
+    window: OpenWindow<A>
+) {
+    // Throws if `reducer` returns `undefined`, closing the returned channel
+    // with the error
+    await output.write(window.accumulator as A & NotUndefined)
+}
+
+interface OpenWindow<A> {
+    /**
+     * Relative to the time when windowing started
+     */
+    end: number
+    accumulator: A
+}
+
+function assertIsPositiveMs(ms: number, name: string) {
+    if (!Number.isFinite(ms) || ms <= 0) {
+        throw new Error(`${name} must be a finite number > 0. Got: ${ms}`)
+    }
+}